@@ -1,70 +1,220 @@
 import { config } from "dotenv";
-import express, { Request, Response } from "express";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import express, { NextFunction, Request, Response } from "express";
 import cors from "cors";
 import fs from "fs";
-import Irys from "@irys/sdk";
 import path from "path";
+import crypto from "crypto";
 import axios from "axios";
 import { ethers } from "ethers";
+import multer from "multer";
 import { getAllBounties } from "./scripts/get-all-bounties";
+import {
+  createJob,
+  getJob,
+  listJobs,
+  updateJob,
+  requestJobCancel,
+  isJobCancelled,
+  isJobFinished,
+  isFinishedStatus,
+  toJobSummary,
+  JobEvent,
+  publishJobEvent,
+  resetJobEvents,
+  getJobEvents,
+  subscribeJobEvents,
+  GenerationJob,
+} from "./lib/jobs";
+import { runWithConcurrency } from "./lib/worker-pool";
+import {
+  withRetry,
+  isRetryableError,
+  describeError,
+  RetryExhaustedError,
+} from "./lib/retry";
+import { getProvider, isSupportedModel, LLMProvider, TokenUsage } from "./lib/providers";
+import {
+  PromptTemplate,
+  getPromptTemplate,
+  listPromptTemplates,
+  resolvePromptTemplate,
+  renderPrompt,
+  templateFieldNames,
+} from "./lib/prompt-templates";
+import {
+  OutputValidator,
+  compileOutputSchema,
+  requiredFieldsValidator,
+} from "./lib/output-schema";
+import {
+  signRow,
+  buildSignedManifest,
+  verifyRowSignature,
+  verifyManifest,
+  getSignerAddress,
+  sha256Hex,
+} from "./lib/signing";
+import {
+  PrivacyPolicy,
+  PrivacyReport,
+  PrivacyVerdict,
+  PRIVACY_POLICIES,
+  parsePrivacyPolicy,
+  IdentifierFingerprint,
+  fingerprintIdentifiers,
+  checkRowPrivacy,
+  applyPrivacyPolicy,
+  collectText,
+} from "./lib/privacy";
+import {
+  DedupOptions,
+  DedupReport,
+  SimilarityScore,
+  DEFAULT_DEDUP_OPTIONS,
+  createDedupFilter,
+  parseDedupOptions,
+} from "./lib/similarity";
+import { computeQualityMetrics } from "./lib/quality";
+import {
+  SeedInput,
+  UploadedFile,
+  MAX_SEED_FILE_BYTES,
+  MAX_GENERATION_ROWS,
+  readSeedInput,
+  parseVariantsPerSeed,
+  seedInputMetadata,
+  expandSeeds,
+} from "./lib/seed-input";
+import {
+  RedactionSummary,
+  createRedactor,
+  parseRedactTypes,
+  saveRedactionMap,
+  loadRedactionMap,
+  reverseRedaction,
+} from "./lib/redaction";
+import {
+  ExportFormat,
+  EXPORT_FORMATS,
+  parseOutputFormat,
+  SerializedDataset,
+  serializeDataset,
+  parseDataset,
+} from "./lib/export-formats";
+import {
+  UsageTotals,
+  IrysUploadCost,
+  emptyUsage,
+  addUsage,
+  mergeUsage,
+  buildCostBreakdown,
+  sumCreatorCosts,
+  sumUploadCosts,
+} from "./lib/costs";
+import { RunCheckpoint, openCheckpoint, clearCheckpoint } from "./lib/checkpoints";
+import {
+  HfSource,
+  HF_DATASETS_SERVER,
+  parseHfSource,
+  fetchHfRows,
+  toHfSeeds,
+  resolveHfLabel,
+  hfDatasetUrl,
+} from "./lib/huggingface";
+import {
+  ResponseCacheOptions,
+  ResponseCacheReport,
+  createCacheSession,
+  evictCachedResponse,
+  parseCacheOptions,
+  cacheStats,
+  clearResponseCache,
+} from "./lib/response-cache";
+import { getStorage, putObject, fetchObject, StorageNotFoundError } from "./lib/storage";
+import { getIrysBalance, quoteIrys, fundIrys, withdrawIrys } from "./lib/storage/irys";
+import {
+  IrysBudgetError,
+  LedgerEntryType,
+  assertWithinBudget,
+  budgetStatus,
+  readLedger,
+} from "./lib/storage/irys-ledger";
+import {
+  IDEMPOTENCY_HEADER,
+  validateIdempotencyKey,
+  idempotencyRequestHash,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  releaseIdempotencyKey,
+} from "./lib/idempotency";
+import {
+  Recipient,
+  DatasetEncryption,
+  createDatasetCipher,
+  unwrapGatewayKey,
+  isPrivateVisibility,
+  parseRecipients,
+  ENCRYPTED_CONTENT_TYPE,
+  EncryptedDatasetError,
+} from "./lib/dataset-encryption";
+import {
+  recordEncryptedDataset,
+  findEncryptedDataset,
+  bindEncryptedDatasetToken,
+  entitledAddresses,
+} from "./lib/encrypted-datasets";
+import { createKeyChallenge, consumeKeyChallenge, KeyReleaseTarget } from "./lib/key-release";
+import {
+  ChunkEntry,
+  ChunkManifest,
+  CHUNK_BYTES,
+  CHUNK_MANIFEST_TYPE,
+  shouldChunk,
+  splitIntoChunks,
+  chunkHash,
+  merkleRoot,
+  readChunkManifest,
+  verifyChunkManifest,
+  verifyChunk,
+  chunksForRange,
+} from "./lib/chunked-dataset";
+import {
+  InjectionScreen,
+  InjectionReport,
+  InjectionVerdict,
+  InjectionPolicy,
+  INJECTION_POLICIES,
+  DEFAULT_INJECTION_POLICY,
+  parseInjectionPolicy,
+  screenSeeds,
+  injectionRejection,
+  checkOutputOnTask,
+  applyInjectionGuard,
+} from "./lib/prompt-injection";
+import {
+  LabelDistributionOptions,
+  LabelDistributionReport,
+  parseLabelDistribution,
+  createLabelBalancer,
+} from "./lib/label-distribution";
+import {
+  JudgeOptions,
+  JudgeReport,
+  JudgeRubric,
+  JudgeVerdict,
+  parseJudgeOptions,
+  resolveJudgeRubric,
+  listJudgeRubrics,
+  renderJudgePrompt,
+  judgeResponseSchema,
+  scoreJudgeResponse,
+  describeJudgeFailure,
+  summarizeJudgements,
+} from "./lib/judge";
 
 // Explicitly load the .env file from the same directory as api.ts
 config({ path: path.resolve(__dirname, ".env") });
 
-// --- Irys Helper Function ---
-const getIrys = async () => {
-  const network = "devnet"; // Use "mainnet" for production
-  const providerUrl = process.env.INFURA_RPC; // e.g., from Infura or Alchemy
-  const token = "ethereum";
-
-  if (!providerUrl) {
-    throw new Error("INFURA_RPC is not set in the .env file");
-  }
-
-  const irys = new Irys({
-    network,
-    token,
-    key: process.env.PRIVATE_KEY,
-    config: { providerUrl },
-  });
-  return irys;
-};
-
-const uploadToIrys = async (
-  data: any,
-  tags: { name: string; value: string }[]
-) => {
-  const irys = await getIrys();
-  const dataToUpload = JSON.stringify(data);
-  try {
-    console.log(`Data size: ${Buffer.byteLength(dataToUpload)} bytes`);
-    
-    const price = await irys.getPrice(Buffer.byteLength(dataToUpload));
-    console.log(`Upload price: ${price} wei`);
-    
-    // Check balance before funding
-    const balance = await irys.getLoadedBalance();
-    console.log(`Current balance: ${balance} wei`);
-    
-    if (balance.lt(price)) {
-      console.log(`Funding required: ${price.toString()} wei`);
-      await irys.fund(price);
-    } else {
-      console.log("Sufficient balance, skipping funding");
-    }
-
-    const receipt = await irys.upload(dataToUpload, { tags });
-    console.log(
-      `Data uploaded successfully. https://gateway.irys.xyz/${receipt.id}`
-    );
-    return `https://gateway.irys.xyz/${receipt.id}`;
-  } catch (e) {
-    console.log("Error uploading data ", e);
-    throw new Error(`Irys upload failed: ${(e as Error).message}`);
-  }
-};
-// --- End Irys Helper ---
 
 
 
@@ -72,15 +222,55 @@ const app = express();
 app.use(express.json());
 app.use(cors({ origin: "*" })); // Adjust as needed
 
-// Debug Google API Key
-if (!process.env.GOOGLE_API_KEY) {
-  console.error("⚠️  GOOGLE_API_KEY is not set in .env file");
-} else {
-  console.log("✅ Google API Key found:", process.env.GOOGLE_API_KEY.substring(0, 10) + "...");
-}
+// A POST retried with the same Idempotency-Key gets the first response back
+// instead of running again. Multipart bodies are parsed later by their route,
+// so for those the key alone identifies the request.
+const idempotentPosts = (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  if (req.method !== "POST" || key === undefined) {
+    return next();
+  }
+  try {
+    validateIdempotencyKey(key);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
 
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || "");
-const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" }); // Use stable version
+  const scope = `${req.method} ${req.path}`;
+  const lookup = beginIdempotentRequest(scope, key, idempotencyRequestHash(req.body));
+  if (lookup.state === "replay") {
+    res.set("Idempotent-Replayed", "true");
+    return res.status(lookup.status).json(lookup.body);
+  }
+  if (lookup.state === "in_progress") {
+    return res
+      .status(409)
+      .json({ error: `A request with this ${IDEMPOTENCY_HEADER} is still running` });
+  }
+  if (lookup.state === "mismatch") {
+    return res
+      .status(422)
+      .json({ error: `${IDEMPOTENCY_HEADER} was already used for a different request` });
+  }
+
+  let completed = false;
+  const json = res.json.bind(res);
+  res.json = ((body: any) => {
+    completed = true;
+    completeIdempotentRequest(scope, key, res.statusCode, body);
+    return json(body);
+  }) as Response["json"];
+  res.on("close", () => {
+    if (!completed) {
+      releaseIdempotencyKey(scope, key);
+    }
+  });
+  next();
+};
+app.use(idempotentPosts);
+
+// Model used when a route doesn't take ai_model from the caller
+const DEFAULT_AI_MODEL = process.env.DEFAULT_AI_MODEL || "gemini-2.5-flash";
 
 const HISTORY_FILE = path.resolve(__dirname, "history.json"); // Local file for history inside saga folder
 
@@ -91,112 +281,1482 @@ if (!fs.existsSync(HISTORY_FILE)) {
 
 interface SyntheticRow {
   original_text: string;
-  synthetic_output: {
-    synthetic_transcription: string;
-    medical_specialty: string;
-    explanation: string;
-  };
+  // Index of the seed record this row was generated from
+  seed_index: number;
+  // Keys are the prompt template's output fields, or the output schema's
+  synthetic_output: Record<string, any>;
   verification_status: string;
+  // Why verification failed: missing fields or output_schema violations
+  verification_errors?: string[];
+  // EIP-191 signature over the row's canonical JSON, and the address that made it
   signature: string;
+  signer?: string;
+  // Identifier leakage check against original_text
+  privacy?: PrivacyVerdict;
+  // MinHash similarity to the source text and to the closest earlier row
+  similarity?: SimilarityScore;
+  // Second-pass scores from the judge model, when the judge stage ran
+  judge?: JudgeVerdict;
+  // Whether the model stayed on task, or the seed was flagged as an injection
+  injection?: InjectionVerdict;
 }
 
-async function generate_synthetic_data(
-  model: any,
-  base_data: { text: string }[]
-): Promise<SyntheticRow[]> {
-  const synthetic_results: SyntheticRow[] = [];
-  for (let i = 0; i < base_data.length; i++) {
+// What to generate: the prompt template, an optional caller JSON Schema and
+// what to do with rows that leak identifiers from the source or repeat others
+interface GenerationSpec {
+  template: PromptTemplate;
+  output_schema?: any;
+  privacy_policy?: PrivacyPolicy;
+  dedup?: DedupOptions;
+  // The caller's max_tokens; DEFAULT_MAX_OUTPUT_TOKENS when not given
+  max_output_tokens?: number;
+  // Scores every verified row with a judge model; rows below threshold fail
+  judge?: RowJudge;
+  // Label quotas the rows are steered toward
+  label_distribution?: LabelDistributionOptions;
+  // Seeds the prompt-injection screen flagged; their rows are quarantined
+  injection?: InjectionScreen;
+  // Output field that keeps each seed's original label (dataset augmentation)
+  source_label_field?: string;
+  // Response cache for the run's provider calls, judge calls included
+  cache?: ResponseCacheOptions;
+  // Per seed, fingerprints of the identifiers redaction took out; rows that
+  // contain one fail the privacy check
+  source_identifiers?: IdentifierFingerprint[][];
+}
+
+// Label a row's prompt asks for. A fixed label also overwrites whatever the
+// model put in the field, so augmented rows keep their source label.
+interface TargetLabel {
+  field: string;
+  value: string;
+  fixed?: boolean;
+}
+
+interface RowJudge {
+  provider: LLMProvider;
+  rubric: JudgeRubric;
+  threshold: number;
+}
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 3000;
+const MAX_OUTPUT_TOKENS_LIMIT = 65536;
+
+// DEFAULT_PRIVACY_POLICY, read like the request's privacy_policy. An invalid
+// value is reported and replaced by "quarantine", so a typo can't quietly
+// publish leaking rows.
+const DEFAULT_PRIVACY_POLICY: PrivacyPolicy = (() => {
+  const configured = process.env.DEFAULT_PRIVACY_POLICY;
+  if (!configured) {
+    return "flag";
+  }
+  const policy = parsePrivacyPolicy(configured);
+  if (!policy) {
+    console.error(
+      `DEFAULT_PRIVACY_POLICY must be one of: ${PRIVACY_POLICIES.join(", ")}; using "quarantine"`
+    );
+  }
+  return policy || "quarantine";
+})();
+
+interface GenerationHooks {
+  // Called once per input row with the verified row, or null when it was skipped
+  on_row?: (index: number, row: SyntheticRow | null) => void;
+  // Progress detail for streaming clients; attempt counts from 1
+  on_row_start?: (index: number, attempt: number) => void;
+  on_row_failure?: (failure: RowFailure) => void;
+  // score is absent when the row was rejected for its label
+  on_row_rejected?: (index: number, reason: string, score?: SimilarityScore) => void;
+  // A rejected row's replacement passed the similarity filter
+  on_row_regenerated?: (index: number, row: SyntheticRow) => void;
+  is_cancelled?: () => boolean;
+  // Rows found here are reused instead of generated; new ones are saved to it
+  checkpoint?: RunCheckpoint;
+}
+
+interface GenerationOptions {
+  concurrency: number;
+  max_retries: number;
+  // Base seed; row i is generated with seed + i. Random when not given.
+  seed?: number;
+}
+
+// Why a row produced no output, reported back instead of silently dropping it
+interface RowFailure {
+  row_index: number;
+  reason: string;
+  attempts: number;
+  retryable: boolean;
+}
+
+interface GenerationOutcome {
+  rows: SyntheticRow[];
+  failures: RowFailure[];
+  // Rows held back by the "quarantine" privacy policy or the injection guard;
+  // never uploaded
+  quarantined: SyntheticRow[];
+  privacy_report: PrivacyReport;
+  dedup_report: DedupReport;
+  // Null when the judge stage was off
+  judge_report: JudgeReport | null;
+  // Target vs achieved labels; null without a label_distribution
+  label_report: LabelDistributionReport | null;
+  injection_report: InjectionReport;
+  cache_report: ResponseCacheReport;
+  // Tokens used by every provider call of the run, including rejected rows;
+  // responses served from the cache are not counted
+  usage: UsageTotals;
+}
+
+const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  concurrency: Number(process.env.GENERATION_CONCURRENCY) || 4,
+  max_retries: Number(process.env.GENERATION_MAX_RETRIES) || 3,
+};
+
+const RETRY_BASE_DELAY_MS = Number(process.env.GENERATION_RETRY_BASE_MS) || 1000;
+const RETRY_MAX_DELAY_MS = Number(process.env.GENERATION_RETRY_MAX_MS) || 30000;
+
+// Reads concurrency/max_retries/seed overrides from a request body
+const parseGenerationOptions = (body: any): GenerationOptions => {
+  const concurrency = Number(body?.concurrency);
+  const max_retries = Number(body?.max_retries);
+  const seed = Number(body?.seed);
+  return {
+    seed:
+      body?.seed !== undefined && Number.isInteger(seed) ? seed : undefined,
+    concurrency:
+      Number.isInteger(concurrency) && concurrency > 0
+        ? Math.min(concurrency, 32)
+        : DEFAULT_GENERATION_OPTIONS.concurrency,
+    max_retries:
+      Number.isInteger(max_retries) && max_retries >= 0
+        ? Math.min(max_retries, 10)
+        : DEFAULT_GENERATION_OPTIONS.max_retries,
+  };
+};
+
+// Checks the model, template and schema fields shared by the generate routes.
+// Returns an error message, or null when the request is usable.
+const checkGenerationRequest = (body: any, ai_model: string): string | null => {
+  if (!isSupportedModel(ai_model)) {
+    return `Unsupported ai_model "${ai_model}"`;
+  }
+  if (body.template_id && !getPromptTemplate(body.template_id)) {
+    return `Unknown prompt template "${body.template_id}"`;
+  }
+  if (!parseRedactTypes(body.redact_types)) {
+    return "redact_types must be a list of: NAME, DATE, PHONE, MRN, EMAIL, ADDRESS, AGE";
+  }
+  if (body.max_tokens !== undefined && body.max_tokens !== null && body.max_tokens !== "") {
+    const max_tokens = Number(body.max_tokens);
+    if (!Number.isInteger(max_tokens) || max_tokens <= 0 || max_tokens > MAX_OUTPUT_TOKENS_LIMIT) {
+      return `max_tokens must be an integer between 1 and ${MAX_OUTPUT_TOKENS_LIMIT}`;
+    }
+  }
+  if (body.creator !== undefined && !ethers.isAddress(body.creator)) {
+    return "creator must be an address";
+  }
+  if (body.keep_redaction_map && body.creator === undefined) {
+    return "keep_redaction_map needs creator, the address allowed to reverse the map";
+  }
+  if (!parseOutputFormat(body.output_format)) {
+    return `output_format must be one of: ${EXPORT_FORMATS.join(", ")} (or "Structured JSON")`;
+  }
+  if (body.privacy_policy !== undefined && !parsePrivacyPolicy(body.privacy_policy)) {
+    return `privacy_policy must be one of: ${PRIVACY_POLICIES.join(", ")}`;
+  }
+  if (!parseInjectionPolicy(body.injection_policy)) {
+    return `injection_policy must be one of: ${INJECTION_POLICIES.join(", ")}`;
+  }
+  try {
+    parseDedupOptions(body.dedup);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  try {
+    const target = parseLabelDistribution(body.label_distribution);
+    if (body.label_field !== undefined && typeof body.label_field !== "string") {
+      return "label_field must be a string";
+    }
+    if (target && body.output_schema !== undefined && !body.label_field) {
+      return "label_distribution needs label_field when output_schema is set";
+    }
+  } catch (error) {
+    return (error as Error).message;
+  }
+  try {
+    parseCacheOptions(body.cache);
+    parseRecipients(body.recipients);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  try {
+    const judge = parseJudgeOptions(body.judge);
+    if (judge.ai_model && !isSupportedModel(judge.ai_model)) {
+      return `Unsupported judge.ai_model "${judge.ai_model}"`;
+    }
+  } catch (error) {
+    return (error as Error).message;
+  }
+  if (body.output_schema !== undefined) {
     try {
-      console.log(`Processing row ${i + 1}/${base_data.length}...`);
-      const original_text = base_data[i].text;
+      compileOutputSchema(body.output_schema);
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+  return null;
+};
 
-      const prompt = `
-        You are a helpful assistant for creating synthetic medical data.
-        Based on the following medical transcription, please generate a new, paraphrased version.
-        The new version should be medically coherent but different in wording.
-        Also, provide a new 'medical_specialty' and a brief 'explanation' for the generated transcription.
+// Input de-identification is on unless REDACT_INPUT=false or the request
+// sends redact_input: false
+const REDACT_INPUT_DEFAULT = process.env.REDACT_INPUT !== "false";
+
+// Replaces identifiers in the caller's text with typed placeholders before it
+// is used in a prompt, stored in history or published. The placeholder map is
+// only written locally, and only when keep_redaction_map is set.
+// One redactor covers every seed text, so placeholders are numbered
+// consistently across the whole dataset.
+function redact_request_input(
+  body: any,
+  texts: string[]
+): {
+  texts: string[];
+  redaction: RedactionSummary & { map_id?: string };
+  // Per text, fingerprints of the identifiers it held before redaction
+  identifiers?: IdentifierFingerprint[][];
+} {
+  const enabled = body.redact_input ?? REDACT_INPUT_DEFAULT;
+  if (!enabled) {
+    return {
+      texts,
+      redaction: { applied: false, replacements: 0, counts: {} },
+    };
+  }
 
-        Original Transcription:
-        "${original_text}"
+  const redactor = createRedactor(parseRedactTypes(body.redact_types)!);
+  const redacted = texts.map((text) => redactor.redact(text));
+  const summary = redactor.summary();
+  const map_id =
+    body.keep_redaction_map && summary.replacements > 0
+      ? saveRedactionMap(redactor.mapping, ethers.getAddress(body.creator))
+      : undefined;
+
+  return {
+    texts: redacted,
+    redaction: map_id ? { ...summary, map_id } : summary,
+    identifiers: texts.map(fingerprintIdentifiers),
+  };
+}
+
+// Redaction details that are safe to publish: no map id, no values
+const publicRedaction = ({ applied, replacements, counts }: RedactionSummary) => ({
+  applied,
+  replacements,
+  counts,
+});
+
+const seedUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_SEED_FILE_BYTES, files: 1 },
+});
+
+// Multipart fields arrive as strings; these ones carry JSON
+const MULTIPART_JSON_FIELDS = [
+  "seeds",
+  "tags",
+  "output_schema",
+  "dedup",
+  "judge",
+  "cache",
+  "recipients",
+  "label_distribution",
+  "redact_types",
+  "redact_input",
+  "keep_redaction_map",
+];
+
+// Accepts an optional CSV/JSONL seed file in the multipart "file" field
+const acceptSeedFile = (req: Request, res: Response, next: NextFunction) =>
+  seedUpload.single("file")(req, res, (error: any) => {
+    if (error) {
+      return res.status(400).json({ error: `Invalid upload: ${error.message}` });
+    }
+    if (req.is("multipart/form-data")) {
+      for (const field of MULTIPART_JSON_FIELDS) {
+        if (typeof req.body[field] === "string") {
+          try {
+            req.body[field] = JSON.parse(req.body[field]);
+          } catch {
+            // Left as a string; validation reports it
+          }
+        }
+      }
+    }
+    next();
+  });
+
+// Seed records and row count for a generation request. A single input_text
+// is repeated sample_size times; seed records get variants_per_seed rows
+// each (default 1). Null when the request has no seed input at all; throws
+// with a message for a 400 response when it is invalid.
+function read_generation_seeds(
+  body: any,
+  file: UploadedFile | undefined,
+  sample_size: any
+): { seeds: SeedInput; variants_per_seed: number; sample_size: number } | null {
+  const seeds = readSeedInput(body, file);
+  if (!seeds) {
+    return null;
+  }
+
+  const variants = parseVariantsPerSeed(body.variants_per_seed);
+  if (seeds.source === "input_text") {
+    const rows = variants ?? Number(sample_size);
+    if (!Number.isInteger(rows) || rows <= 0) {
+      throw new Error("sample_size must be a positive integer");
+    }
+    return { seeds, variants_per_seed: rows, sample_size: rows };
+  }
+
+  const variants_per_seed = variants ?? 1;
+  const rows = seeds.texts.length * variants_per_seed;
+  if (rows > MAX_GENERATION_ROWS) {
+    throw new Error(
+      `${seeds.texts.length} seeds x ${variants_per_seed} variants is ${rows} rows; the limit is ${MAX_GENERATION_ROWS}`
+    );
+  }
+  return { seeds, variants_per_seed, sample_size: rows };
+}
 
-        Please provide the output in a valid JSON format with the following keys:
-        - "synthetic_transcription": The new, paraphrased transcription.
-        - "medical_specialty": The relevant medical specialty.
-        - "explanation": A brief explanation of the synthetic transcription.
+// What history and the NFT record as the dataset's input
+const describe_seed_input = (seeds: SeedInput, redacted_texts: string[]) =>
+  seeds.source === "input_text"
+    ? redacted_texts[0]
+    : `${seeds.texts.length} seed records from ${seeds.file_name || "request body"}`;
+
+async function generate_synthetic_row(
+  provider: LLMProvider,
+  spec: GenerationSpec,
+  original_text: string,
+  seed_index: number,
+  seed: number,
+  target_label?: TargetLabel
+): Promise<{ row: SyntheticRow | null; usage?: TokenUsage; cached?: boolean }> {
+  const prompt = renderPrompt(spec.template, original_text, spec.output_schema, target_label);
+  const fields = templateFieldNames(spec.template);
+
+  const { json, usage, cached } = await provider.generateJson(prompt, {
+    max_output_tokens: spec.max_output_tokens || DEFAULT_MAX_OUTPUT_TOKENS,
+    temperature: 0.7,
+    seed,
+    response_fields: fields,
+    response_schema: spec.output_schema,
+  });
+  const synthetic_output =
+    target_label?.fixed && json && typeof json === "object" && !Array.isArray(json)
+      ? { ...json, [target_label.field]: target_label.value }
+      : json;
+
+  const row = verify_synthetic_row(
+    {
+      original_text,
+      seed_index,
+      synthetic_output,
+    },
+    spec.output_schema
+      ? compileOutputSchema(spec.output_schema)
+      : requiredFieldsValidator(fields)
+  );
+
+  return {
+    row: row && {
+      ...row,
+      privacy: checkRowPrivacy(
+        original_text,
+        synthetic_output,
+        spec.source_identifiers?.[seed_index]
+      ),
+      injection: checkOutputOnTask(original_text, synthetic_output),
+    },
+    usage,
+    cached,
+  };
+}
+
+// The request's label_distribution over label_field, which defaults to the
+// template's label field. Undefined when no distribution was requested.
+const resolve_label_distribution = (
+  body: any,
+  template: PromptTemplate
+): LabelDistributionOptions | undefined => {
+  const target = parseLabelDistribution(body.label_distribution);
+  if (!target) {
+    return undefined;
+  }
+  const label_field = body.label_field || (body.output_schema ? null : template.label_field);
+  if (!label_field) {
+    throw new Error("label_distribution needs label_field when output_schema is set");
+  }
+  return { label_field, target };
+};
 
-        Example Output:
+// The judge stage's settings for a request: the rubric for its domain (or
+// judge.rubric_id) and the judge model, which defaults to the generation model
+const resolve_row_judge = (
+  options: JudgeOptions | undefined,
+  domain: string | undefined,
+  ai_model: string
+): RowJudge | undefined => {
+  if (!options?.enabled) {
+    return undefined;
+  }
+  const rubric = resolveJudgeRubric(domain, options.rubric_id);
+  return {
+    provider: getProvider(options.ai_model || ai_model),
+    rubric,
+    threshold: options.threshold ?? rubric.threshold,
+  };
+};
+
+// Asks the judge model to score a verified row against the rubric. A row
+// below the threshold is marked failed; a judge call that keeps failing is
+// recorded on the row and leaves its status alone.
+async function judge_synthetic_row(
+  spec: GenerationSpec,
+  judge: RowJudge,
+  row: SyntheticRow,
+  seed: number,
+  max_retries: number,
+  on_usage: (usage?: TokenUsage) => void
+): Promise<SyntheticRow> {
+  const prompt = renderJudgePrompt(
+    judge.rubric,
+    row.original_text,
+    row.synthetic_output,
+    spec.output_schema ? undefined : spec.template.label_field
+  );
+
+  let verdict: JudgeVerdict;
+  try {
+    verdict = await withRetry(
+      async () => {
+        const config = {
+          max_output_tokens: DEFAULT_MAX_OUTPUT_TOKENS,
+          temperature: 0,
+          seed,
+          response_schema: judgeResponseSchema(judge.rubric),
+        };
+        const { json, usage, cached } = await judge.provider.generateJson(prompt, config);
+        if (!cached) {
+          on_usage(usage);
+        }
+        try {
+          return scoreJudgeResponse(judge.rubric, json, judge.provider.model, judge.threshold);
+        } catch (error) {
+          // A malformed verdict isn't retried here (it isn't a transient
+          // error), but it mustn't stay cached either: a later run or a
+          // resume with the same seed would replay it instead of asking again
+          evictCachedResponse(judge.provider, prompt, config);
+          throw error;
+        }
+      },
+      {
+        max_retries,
+        base_delay_ms: RETRY_BASE_DELAY_MS,
+        max_delay_ms: RETRY_MAX_DELAY_MS,
+      }
+    );
+  } catch (error) {
+    const cause = error instanceof RetryExhaustedError ? error.cause : error;
+    console.log(`  Judge error: ${describeError(cause)}`);
+    return {
+      ...row,
+      judge: {
+        rubric_id: judge.rubric.id,
+        rubric_version: judge.rubric.version,
+        model: judge.provider.model,
+        threshold: judge.threshold,
+        passed: false,
+        error: describeError(cause),
+      },
+    };
+  }
+
+  if (verdict.passed) {
+    return { ...row, judge: verdict };
+  }
+  console.log(`  ${describeJudgeFailure(verdict)}`);
+  return {
+    ...row,
+    verification_status: "failed",
+    verification_errors: [...(row.verification_errors || []), describeJudgeFailure(verdict)],
+    judge: verdict,
+  };
+}
+
+// Text compared by the near-duplicate filter: every output field except the
+// template's label, which is expected to repeat across rows
+const similarity_text = (spec: GenerationSpec, row: SyntheticRow) => {
+  const { [spec.template.label_field]: label, ...rest } = row.synthetic_output || {};
+  return collectText(spec.output_schema ? row.synthetic_output : rest);
+};
+
+async function generate_synthetic_data(
+  provider: LLMProvider,
+  spec: GenerationSpec,
+  // label: the seed's original label, kept in spec.source_label_field
+  base_data: { text: string; seed_index?: number; label?: string | null }[],
+  hooks: GenerationHooks = {},
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS
+): Promise<GenerationOutcome> {
+  // Indexed by input row so output order matches input order
+  const results: (SyntheticRow | null)[] = new Array(base_data.length).fill(null);
+  const failures: RowFailure[] = [];
+  const base_seed = options.seed ?? crypto.randomInt(2 ** 31);
+  const usage = emptyUsage();
+  const is_cancelled = () => !!hooks.is_cancelled?.();
+  const balancer = spec.label_distribution
+    ? createLabelBalancer(spec.label_distribution, base_data.length)
+    : null;
+  const cache = createCacheSession(spec.cache);
+  const generator = cache.wrap(provider);
+  const judge: RowJudge | undefined = spec.judge && {
+    ...spec.judge,
+    provider: cache.wrap(spec.judge.provider),
+  };
+  // Label each row's prompt asks for; rejected slots are re-targeted
+  const targets: (string | undefined)[] = balancer ? [...balancer.targets] : [];
+  const target_label = (i: number): TargetLabel | undefined => {
+    const source_label = base_data[i].label;
+    if (spec.source_label_field && source_label) {
+      return { field: spec.source_label_field, value: source_label, fixed: true };
+    }
+    return spec.label_distribution && targets[i]
+      ? { field: spec.label_distribution.label_field, value: targets[i]! }
+      : undefined;
+  };
+
+  // round 0 is the first pass, n the n-th similarity regeneration round
+  const generate_with_retry = async (i: number, seed: number, round: number) => {
+    const saved = hooks.checkpoint?.get(round, i);
+    if (saved) {
+      mergeUsage(usage, saved.usage);
+      if (saved.failure) {
+        failures.push(saved.failure);
+      }
+      return saved.row as SyntheticRow | null;
+    }
+
+    let attempts = 0;
+    const row_usage = emptyUsage();
+    try {
+      const { row } = await withRetry(
+        async (attempt) => {
+          attempts = attempt + 1;
+          hooks.on_row_start?.(i, attempts);
+          const result = await generate_synthetic_row(
+            generator,
+            spec,
+            base_data[i].text,
+            base_data[i].seed_index ?? 0,
+            seed,
+            target_label(i)
+          );
+          if (!result.cached) {
+            addUsage(row_usage, result.usage);
+          }
+          return result;
+        },
         {
-            "synthetic_transcription": "The patient reports a history of chronic migraines and is currently prescribed sumatriptan.",
-            "medical_specialty": "Neurology",
-            "explanation": "This transcription documents a patient's history and treatment for a neurological condition."
+          max_retries: options.max_retries,
+          base_delay_ms: RETRY_BASE_DELAY_MS,
+          max_delay_ms: RETRY_MAX_DELAY_MS,
+          on_retry: (attempt, delay_ms, error) =>
+            console.log(
+              `  Row ${i + 1}: ${describeError(error)}. Retry ${attempt}/${
+                options.max_retries
+              } in ${delay_ms}ms.`
+            ),
         }
-      `;
+      );
 
-      const generationConfig = {
-        responseMimeType: "application/json",
-        maxOutputTokens: 3000,
-        temperature: 0.7,
+      if (!row) {
+        throw new Error("Verification error");
+      }
+      const judged =
+        judge && row.verification_status === "verified"
+          ? await judge_synthetic_row(
+              spec,
+              judge,
+              row,
+              seed,
+              options.max_retries,
+              (judge_usage) => addUsage(row_usage, judge_usage)
+            )
+          : row;
+      mergeUsage(usage, row_usage);
+      hooks.checkpoint?.put({ round, index: i, row: judged, usage: row_usage });
+      return judged;
+    } catch (error) {
+      const cause = error instanceof RetryExhaustedError ? error.cause : error;
+      const failure: RowFailure = {
+        row_index: i,
+        reason: describeError(cause),
+        attempts,
+        retryable: isRetryableError(cause),
       };
+      failures.push(failure);
+      mergeUsage(usage, row_usage);
+      // A cancelled run stops mid-row; that row is generated again on resume
+      if (!is_cancelled()) {
+        hooks.checkpoint?.put({ round, index: i, row: null, failure, usage: row_usage });
+      }
+      hooks.on_row_failure?.(failure);
+      console.log(`  Error for row ${i + 1}: ${describeError(error)}. Skipping.`);
+      return null;
+    }
+  };
 
-      const response = await model.generateContent({
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        generationConfig,
-      });
+  await runWithConcurrency(
+    base_data,
+    options.concurrency,
+    async (item, i) => {
+      console.log(`Processing row ${i + 1}/${base_data.length}...`);
+      const row = await generate_with_retry(i, base_seed + i, 0);
+      if (row) {
+        results[i] = row;
+        console.log(
+          `  Successfully generated and verified synthetic data for row ${
+            i + 1
+          }.`
+        );
+      }
+      hooks.on_row?.(i, row);
+    },
+    is_cancelled
+  );
 
-      if (!response.response.text()) {
-        console.log(`  Skipping row ${i + 1} due to empty response.`);
+  // Label quota and near-duplicate filters, in row order so the earlier of
+  // two similar rows wins. Rejected slots are regenerated with fresh seeds
+  // for up to max_rounds.
+  const dedup_options = spec.dedup || DEFAULT_DEDUP_OPTIONS;
+  const dedup = createDedupFilter(dedup_options);
+  const filter_rows = (indexes: number[]) => {
+    const rejected: number[] = [];
+    for (const i of indexes) {
+      const row = results[i];
+      if (!row) continue;
+      const label = balancer?.labelOf(row.synthetic_output);
+      const label_rejection = balancer ? balancer.check(label) : null;
+      if (label_rejection) {
+        results[i] = null;
+        rejected.push(i);
+        hooks.on_row_rejected?.(i, label_rejection);
         continue;
       }
+      const decision = dedup.check(base_data[i].text, similarity_text(spec, row));
+      if (decision.accepted) {
+        balancer?.accept(label);
+        results[i] = { ...row, similarity: decision.score };
+      } else {
+        results[i] = null;
+        rejected.push(i);
+        hooks.on_row_rejected?.(i, decision.reason, decision.score);
+      }
+    }
+    return rejected;
+  };
 
-      const synthetic_output = JSON.parse(response.response.text());
+  let rejected = filter_rows(base_data.map((_, i) => i));
+  if (rejected.length > 0) {
+    console.log(`  Label and similarity filters rejected ${rejected.length} row(s).`);
+  }
+  while (
+    rejected.length > 0 &&
+    dedup_options.regenerate &&
+    dedup.report.rounds < dedup_options.max_rounds &&
+    !is_cancelled()
+  ) {
+    dedup.report.rounds++;
+    const offset = base_data.length * dedup.report.rounds;
+    console.log(
+      `  Regenerating ${rejected.length} row(s), round ${dedup.report.rounds}/${dedup_options.max_rounds}...`
+    );
+    if (balancer) {
+      const retargeted = balancer.retarget(rejected.length);
+      rejected.forEach((i, k) => (targets[i] = retargeted[k]));
+    }
+    await runWithConcurrency(
+      rejected,
+      options.concurrency,
+      async (i) => {
+        results[i] = await generate_with_retry(
+          i,
+          base_seed + offset + i,
+          dedup.report.rounds
+        );
+      },
+      is_cancelled
+    );
+    const slots = rejected;
+    rejected = filter_rows(slots);
+    for (const i of slots) {
+      if (results[i]) {
+        dedup.report.regenerated++;
+        hooks.on_row_regenerated?.(i, results[i]!);
+      }
+    }
+  }
+  dedup.report.unfilled = rejected.length;
+
+  if (is_cancelled()) {
+    console.log("  Generation cancelled.");
+  }
+
+  failures.sort((a, b) => a.row_index - b.row_index);
+
+  const judge_report = spec.judge
+    ? summarizeJudgements(
+        spec.judge.rubric,
+        spec.judge.provider.model,
+        spec.judge.threshold,
+        results.flatMap((row) => (row?.judge ? [row.judge] : []))
+      )
+    : null;
+  if (judge_report) {
+    console.log(
+      `  Judge: ${judge_report.passed}/${judge_report.judged} row(s) passed (${judge_report.rubric_id}).`
+    );
+  }
+
+  const cache_report = cache.report();
+  if (cache_report.enabled) {
+    console.log(
+      `  Response cache: ${cache_report.hits} hit(s), ${cache_report.misses} miss(es).`
+    );
+  }
+
+  const guarded = applyInjectionGuard(
+    results.filter((row): row is SyntheticRow => row !== null),
+    spec.injection || { policy: DEFAULT_INJECTION_POLICY, flagged_seeds: [] }
+  );
+  if (guarded.report.quarantined > 0) {
+    console.log(
+      `  Injection guard: quarantined ${guarded.report.quarantined} row(s), ${guarded.report.off_task} off task.`
+    );
+  }
+
+  const policy = spec.privacy_policy || DEFAULT_PRIVACY_POLICY;
+  const { kept, removed, report } = applyPrivacyPolicy(guarded.kept, policy);
+  if (report.failed > 0) {
+    console.log(
+      `  Privacy check: ${report.failed} row(s) leaked source identifiers (policy: ${policy}).`
+    );
+  }
+
+  const label_report = balancer ? balancer.report(kept) : null;
+
+  return {
+    rows: sign_rows(kept),
+    failures,
+    quarantined: [...guarded.quarantined, ...(policy === "quarantine" ? removed : [])],
+    privacy_report: report,
+    dedup_report: dedup.report,
+    judge_report,
+    label_report,
+    injection_report: guarded.report,
+    cache_report,
+    usage,
+  };
+}
+
+function verify_synthetic_row(
+  synthetic_row: {
+    original_text: string;
+    seed_index: number;
+    synthetic_output: any;
+  },
+  validator: OutputValidator
+): SyntheticRow | null {
+  try {
+    const errors = validator.validate(synthetic_row.synthetic_output);
+    if (errors.length > 0) {
+      console.log(`  Verification failed: ${errors.join("; ")}`);
+      return {
+        ...synthetic_row,
+        verification_status: "failed",
+        verification_errors: errors,
+        signature: "",
+      };
+    }
+
+    // Signed in sign_rows once every row is final
+    return { ...synthetic_row, verification_status: "verified", signature: "" };
+  } catch (error) {
+    console.log(`  Error during verification: ${error}`);
+    return null;
+  }
+}
+
+// EIP-191 signs each verified row over its canonical JSON. Runs last so no
+// later step changes a row after it was signed.
+function sign_rows(rows: SyntheticRow[]): SyntheticRow[] {
+  return rows.map((row) =>
+    row.verification_status === "verified"
+      ? signRow(row)
+      : { ...row, signature: "" }
+  );
+}
+
+// --- Generation Jobs ---
+
+type IrysTags = { name: string; value: string }[];
+
+// Everything a job needs to run the generate -> upload content -> upload
+// metadata -> history steps; stored with the job so it must stay plain JSON.
+interface GenerationParams {
+  input_text: string;
+  sample_size: number;
+  // Seed records, each generated variants_per_seed times. Without them
+  // input_text is repeated sample_size times.
+  seeds?: string[];
+  variants_per_seed?: number;
+  domain: string;
+  metadata: Record<string, any>;
+  content_tags: IrysTags;
+  metadata_tags: IrysTags;
+  history: Record<string, any>;
+  ai_model: string;
+  template_id: string;
+  output_schema?: any;
+  privacy_policy?: PrivacyPolicy;
+  // Fingerprints of the identifiers redaction took out of each seed
+  source_identifiers?: IdentifierFingerprint[][];
+  dedup?: DedupOptions;
+  judge?: JudgeOptions;
+  cache?: ResponseCacheOptions;
+  label_distribution?: LabelDistributionOptions;
+  injection?: InjectionScreen;
+  // Hugging Face augmentation: the job fetches these rows itself and stores
+  // them in seeds/seed_labels, so a resumed job doesn't fetch them again
+  hf_source?: HfSource;
+  // Request fields the redaction and injection screen read, for seeds the
+  // job fetches itself
+  seed_screening?: {
+    redact_input?: boolean;
+    redact_types?: any;
+    keep_redaction_map?: boolean;
+    injection_policy?: InjectionPolicy;
+  };
+  // Original label of each seed, kept in seed_label_field
+  seed_labels?: (string | null)[];
+  seed_label_field?: string;
+  // Serialization of the uploaded content; JSON array when absent
+  export_format?: ExportFormat;
+  // Parties given their own wrapped key when a private dataset is encrypted
+  recipients?: Recipient[];
+  max_output_tokens?: number;
+  // Address the run is accounted to in /api/costs/creator/:address
+  creator?: string;
+  generation: GenerationOptions;
+}
+
+// A generated row goes out before the similarity filter and signing, so the
+// final, signed rows are the ones in the job result
+const publish_row_events = (job_id: string, index: number, row: SyntheticRow) => {
+  publishJobEvent(job_id, "row_succeeded", { index, row });
+  publishJobEvent(job_id, "row_verification", {
+    index,
+    verification_status: row.verification_status,
+    verification_errors: row.verification_errors || [],
+    privacy: row.privacy?.verdict || null,
+    judge_score: row.judge?.score ?? null,
+  });
+};
+
+// Pages through the job's Hugging Face rows and turns them into seeds,
+// applying the same redaction and injection screen as request seeds. The
+// seeds and the source provenance are written back into the job's params.
+async function fetch_hf_seeds(job_id: string, params: GenerationParams) {
+  const source = params.hf_source!;
+  updateJob(job_id, { status: "fetching" });
+  console.log(
+    `[job ${job_id}] Fetching ${source.limit} rows of ${source.dataset} (${source.config}/${source.split}) from offset ${source.offset}...`
+  );
+  const page = await fetchHfRows(source, (fetched) =>
+    publishJobEvent(job_id, "source_page", { fetched, limit: source.limit })
+  );
+  const fetched = toHfSeeds(source, page);
+  if (fetched.texts.length === 0) {
+    throw new Error(
+      `No rows with text in column "${source.text_column}" from ${source.dataset} at offset ${source.offset}`
+    );
+  }
+
+  const screening = params.seed_screening || {};
+  const input = redact_request_input({ ...screening, creator: params.creator }, fetched.texts);
+  const injection = screenSeeds(
+    input.texts,
+    screening.injection_policy || DEFAULT_INJECTION_POLICY
+  );
+  const rejection = injectionRejection(injection);
+  if (rejection) {
+    throw new Error(`${rejection.error} (${rejection.reason})`);
+  }
+
+  const variants_per_seed = params.variants_per_seed || 1;
+  const rows = fetched.texts.length * variants_per_seed;
+  if (rows > MAX_GENERATION_ROWS) {
+    throw new Error(
+      `${fetched.texts.length} rows x ${variants_per_seed} variants is ${rows} rows; the limit is ${MAX_GENERATION_ROWS}`
+    );
+  }
+
+  const input_text = `${fetched.texts.length} rows of ${source.dataset}`;
+  params.seeds = input.texts;
+  params.source_identifiers = input.identifiers;
+  params.seed_labels = fetched.labels;
+  params.sample_size = rows;
+  params.input_text = input_text;
+  params.injection = injection;
+  params.metadata = {
+    ...params.metadata,
+    input_text,
+    seed_input: {
+      source: "huggingface",
+      seed_count: fetched.texts.length,
+      variants_per_seed,
+      text_column: source.text_column,
+      ...(source.label_column ? { label_column: source.label_column } : {}),
+    },
+    input_redaction: publicRedaction(input.redaction),
+    source_provenance: {
+      type: "huggingface",
+      dataset: source.dataset,
+      url: hfDatasetUrl(source.dataset),
+      config: source.config,
+      split: source.split,
+      offset: source.offset,
+      limit: source.limit,
+      text_column: source.text_column,
+      label_column: source.label_column || null,
+      label_field: params.seed_label_field || null,
+      num_rows_total: page.num_rows_total,
+      rows_fetched: page.rows.length,
+      rows_skipped: fetched.skipped,
+      row_indexes: fetched.row_indexes,
+      api: HF_DATASETS_SERVER,
+      fetched_at: new Date().toISOString(),
+    },
+  };
+  updateJob(job_id, { params, rows_total: rows });
+  publishJobEvent(job_id, "source_fetched", {
+    rows_fetched: page.rows.length,
+    seeds: fetched.texts.length,
+    rows_total: rows,
+    flagged_seeds: injection.flagged_seeds.map((seed) => seed.seed_index),
+  });
+}
+
+interface UploadedContent {
+  url: string;
+  cost: IrysUploadCost;
+  serialized: SerializedDataset;
+  // What the manifest's content_hash covers: the uploaded bytes, or the
+  // Merkle root of the chunks
+  hashed: Buffer | { merkle_root: string };
+  encryption: DatasetEncryption | null;
+  // Null when the content went up as one object
+  chunk_count: number | null;
+}
+
+// Serializes the rows and uploads them as the dataset's content: one object,
+// or chunks plus a chunk manifest once the dataset passes CHUNK_BYTES.
+// Private datasets are encrypted first. Returns the content link and what
+// the signed manifest's content_hash covers.
+async function upload_dataset_content(
+  job_id: string,
+  params: GenerationParams,
+  rows: SyntheticRow[]
+): Promise<UploadedContent> {
+  const info = {
+    name: params.metadata.name,
+    description: params.metadata.description,
+    domain: params.domain,
+  };
+  const serialized = serializeDataset(rows, params.export_format || "json", info);
+  // Private datasets go up encrypted; the metadata says how to decrypt them
+  const cipher = isPrivateVisibility(params.metadata.visibility)
+    ? createDatasetCipher(
+        { content_type: serialized.content_type, format: serialized.format },
+        params.recipients
+      )
+    : null;
+  const other_tags = params.content_tags.filter((tag) => tag.name !== "Content-Type");
+  const content_tags = [
+    { name: "Content-Type", value: cipher ? ENCRYPTED_CONTENT_TYPE : serialized.content_type },
+    ...(cipher ? [{ name: "Encryption", value: cipher.encryption.cipher }] : []),
+    ...other_tags,
+  ];
+  const storage = getStorage().name;
+
+  if (!shouldChunk(serialized.format, serialized.body.length)) {
+    const sealed = cipher?.seal(serialized.body);
+    const body = sealed ? sealed.ciphertext : serialized.body;
+    console.log(
+      `[job ${job_id}] Uploading generated data to ${storage} as ${serialized.format}...`
+    );
+    publishJobEvent(job_id, "upload_started", {
+      target: "content",
+      bytes: body.length,
+      format: serialized.format,
+      encrypted: !!cipher,
+    });
+    const { url, cost } = await putObject(body, content_tags);
+    publishJobEvent(job_id, "upload_completed", { target: "content", url, cost });
+    return {
+      url,
+      cost,
+      serialized,
+      hashed: body,
+      encryption: cipher && sealed ? { ...cipher.encryption, iv: sealed.iv } : null,
+      chunk_count: null,
+    };
+  }
+
+  const parts = splitIntoChunks(rows, serialized.format, info);
+  console.log(
+    `[job ${job_id}] Uploading generated data to ${storage} as ${parts.length} ${serialized.format} chunks...`
+  );
+  const chunks: ChunkEntry[] = [];
+  const costs: IrysUploadCost[] = [];
+  for (const [index, part] of parts.entries()) {
+    const sealed = cipher?.seal(part.body);
+    const body = sealed ? sealed.ciphertext : part.body;
+    publishJobEvent(job_id, "upload_started", {
+      target: "chunk",
+      index,
+      bytes: body.length,
+      rows: [part.row_start, part.row_end],
+    });
+    const { id, url, cost } = await putObject(body, [
+      ...content_tags,
+      { name: "Chunk-Index", value: String(index) },
+    ]);
+    chunks.push({
+      index,
+      id,
+      url,
+      row_start: part.row_start,
+      row_end: part.row_end,
+      bytes: body.length,
+      sha256: chunkHash(body),
+      ...(sealed ? { iv: sealed.iv } : {}),
+    });
+    costs.push(cost);
+    publishJobEvent(job_id, "upload_completed", { target: "chunk", index, url, cost });
+  }
+
+  const manifest: ChunkManifest = {
+    type: CHUNK_MANIFEST_TYPE,
+    version: 1,
+    format: serialized.format,
+    content_type: serialized.content_type,
+    row_count: rows.length,
+    chunk_bytes: CHUNK_BYTES,
+    encrypted: !!cipher,
+    merkle_root: merkleRoot(chunks.map((chunk) => chunk.sha256)),
+    chunks,
+  };
+  publishJobEvent(job_id, "upload_started", {
+    target: "content",
+    format: serialized.format,
+    chunks: chunks.length,
+    encrypted: !!cipher,
+  });
+  const { url, cost } = await putObject(manifest, [
+    { name: "Content-Type", value: "application/json" },
+    { name: "Chunk-Count", value: String(chunks.length) },
+    ...other_tags,
+  ]);
+  costs.push(cost);
+  publishJobEvent(job_id, "upload_completed", { target: "content", url, cost });
+  return {
+    url,
+    cost: sumUploadCosts(costs),
+    serialized,
+    hashed: { merkle_root: manifest.merkle_root },
+    encryption: cipher ? cipher.encryption : null,
+    chunk_count: chunks.length,
+  };
+}
+
+async function run_generation_job(job_id: string): Promise<GenerationJob> {
+  const job = getJob(job_id);
+  if (!job) {
+    throw new Error(`Job ${job_id} not found`);
+  }
+  if (job.status === "cancelled") {
+    return job;
+  }
+
+  const params: GenerationParams = job.params;
+
+  try {
+    if (params.hf_source && !params.seeds) {
+      await fetch_hf_seeds(job_id, params);
+      if (isJobCancelled(job_id)) {
+        return updateJob(job_id, { status: "cancelled" });
+      }
+    }
+
+    // A resumed run must reuse the first run's seed so rows it regenerates
+    // come out the same as they would have
+    if (params.generation.seed === undefined) {
+      params.generation = { ...params.generation, seed: crypto.randomInt(2 ** 31) };
+      updateJob(job_id, { params });
+    }
+    const checkpoint = openCheckpoint(job_id);
+    if (checkpoint.restored > 0) {
+      console.log(`[job ${job_id}] Resuming with ${checkpoint.restored} checkpointed rows`);
+    }
+
+    updateJob(job_id, { status: "generating" });
+
+    const input_data = (
+      params.seeds
+        ? expandSeeds(params.seeds, params.variants_per_seed || 1)
+        : expandSeeds([params.input_text], params.sample_size)
+    ).map((item) => ({ ...item, label: params.seed_labels?.[item.seed_index] }));
+
+    console.log(`[job ${job_id}] Generating ${params.sample_size} synthetic data samples...`);
+    const template = getPromptTemplate(params.template_id);
+    if (!template) {
+      throw new Error(`Unknown prompt template "${params.template_id}"`);
+    }
+
+    const {
+      rows: synthetic,
+      failures,
+      quarantined,
+      privacy_report,
+      dedup_report,
+      judge_report,
+      label_report,
+      injection_report,
+      cache_report,
+      usage,
+    } = await generate_synthetic_data(
+      getProvider(params.ai_model),
+      {
+        template,
+        output_schema: params.output_schema,
+        privacy_policy: params.privacy_policy,
+        dedup: params.dedup,
+        max_output_tokens: params.max_output_tokens,
+        judge: resolve_row_judge(params.judge, params.domain, params.ai_model),
+        label_distribution: params.label_distribution,
+        injection: params.injection,
+        source_identifiers: params.source_identifiers,
+        source_label_field: params.seed_label_field,
+        cache: params.cache,
+      },
+      input_data,
+      {
+        on_row: (index, row) => {
+          const current = getJob(job_id)!;
+          updateJob(
+            job_id,
+            row
+              ? { rows_done: current.rows_done + 1 }
+              : { rows_failed: current.rows_failed + 1 }
+          );
+          if (row) {
+            publish_row_events(job_id, index, row);
+          }
+        },
+        on_row_start: (index, attempt) =>
+          publishJobEvent(job_id, "row_started", {
+            index,
+            seed_index: input_data[index].seed_index,
+            attempt,
+          }),
+        on_row_failure: (failure) => publishJobEvent(job_id, "row_failed", failure),
+        on_row_rejected: (index, reason, score) =>
+          publishJobEvent(job_id, "row_rejected", { index, reason, similarity: score }),
+        on_row_regenerated: (index, row) => publish_row_events(job_id, index, row),
+        is_cancelled: () => isJobCancelled(job_id),
+        checkpoint,
+      },
+      params.generation
+    );
+    updateJob(job_id, { failures });
+
+    if (isJobCancelled(job_id)) {
+      return updateJob(job_id, { status: "cancelled" });
+    }
+
+    if (synthetic.length === 0) {
+      throw new Error(
+        privacy_report.removed > 0
+          ? `Generation failed, all rows were removed by the privacy check (policy: ${privacy_report.policy}).`
+          : injection_report.quarantined > 0
+            ? "Generation failed, all rows were quarantined by the prompt-injection guard."
+            : "Generation failed, no results."
+      );
+    }
+
+    updateJob(job_id, { status: "uploading" });
+
+    const {
+      url: contentUrl,
+      cost: contentCost,
+      serialized,
+      hashed,
+      encryption,
+      chunk_count,
+    } = await upload_dataset_content(job_id, params, synthetic);
+    updateJob(job_id, {
+      irys_links: { content_url: contentUrl, metadata_url: null },
+    });
+
+    if (isJobCancelled(job_id)) {
+      return updateJob(job_id, { status: "cancelled" });
+    }
+
+    const quality = computeQualityMetrics(
+      synthetic,
+      params.label_distribution?.label_field ||
+        (params.output_schema ? null : template.label_field)
+    );
+
+    const max_output_tokens = params.max_output_tokens || DEFAULT_MAX_OUTPUT_TOKENS;
+
+    // The manifest covers the uploaded bytes (ciphertext for private
+    // datasets), or the Merkle root of the chunks
+    const { manifest, manifest_signature } = buildSignedManifest(hashed, synthetic);
+    // Key release trusts this record, not the metadata published below
+    if (encryption) {
+      recordEncryptedDataset({
+        dataset_id: encryption.dataset_id,
+        content_hash: manifest.content_hash,
+        content_url: contentUrl,
+        recipients: (params.recipients || []).map((recipient) => recipient.address),
+      });
+    }
+
+    const metadata = {
+      ...params.metadata,
+      content_url: contentUrl,
+      sample_size: synthetic.length,
+      export_format: serialized.format,
+      content_type: serialized.content_type,
+      manifest,
+      manifest_signature,
+      ...(chunk_count ? { chunk_count } : {}),
+      ...(encryption ? { encryption } : {}),
+      privacy_report,
+      dedup_report,
+      ...(judge_report ? { judge_report } : {}),
+      ...(label_report ? { label_report } : {}),
+      injection_report,
+      quality,
+      cost: buildCostBreakdown(params.ai_model, max_output_tokens, usage, contentCost),
+      prompt_template: { id: template.id, version: template.version },
+      ...(params.output_schema ? { output_schema: params.output_schema } : {}),
+      created_at: new Date().toISOString(),
+    };
+
+    console.log(`[job ${job_id}] Uploading metadata to ${getStorage().name}...`);
+    publishJobEvent(job_id, "upload_started", { target: "metadata" });
+    const { url: metadataUrl, cost: metadataCost } = await putObject(
+      metadata,
+      params.metadata_tags
+    );
+    publishJobEvent(job_id, "upload_completed", {
+      target: "metadata",
+      url: metadataUrl,
+      cost: metadataCost,
+    });
+
+    // Full cost, including the metadata upload the published metadata can't list
+    const cost = buildCostBreakdown(
+      params.ai_model,
+      max_output_tokens,
+      usage,
+      contentCost,
+      metadataCost
+    );
+    console.log(
+      `[job ${job_id}] Cost: ${usage.total_tokens} tokens, ${cost.irys.total_price_wei} wei on ${getStorage().name}`
+    );
+
+    // Save to history
+    const history = JSON.parse(fs.readFileSync(HISTORY_FILE, "utf-8"));
+    history.push({
+      input_text: params.input_text,
+      domain: params.domain,
+      data: synthetic,
+      metadata: metadata,
+      created_at: new Date().toISOString(),
+      content_url: contentUrl,
+      metadata_url: metadataUrl,
+      job_id,
+      ...(params.creator ? { creator: params.creator } : {}),
+      cost,
+      ...params.history,
+    });
+    fs.writeFileSync(HISTORY_FILE, JSON.stringify(history));
+    clearCheckpoint(job_id);
+
+    const irys_links = {
+      content_url: contentUrl,
+      metadata_url: metadataUrl,
+    };
+
+    return updateJob(job_id, {
+      status: "completed",
+      irys_links,
+      result: {
+        data: synthetic,
+        failures,
+        quarantined,
+        privacy_report,
+        dedup_report,
+        judge_report,
+        label_report,
+        injection_report,
+        cache_report,
+        quality,
+        cost,
+        metadata: metadata,
+        irys_links,
+        ready_for_nft: {
+          sourceUrl: params.input_text,
+          contentLink: contentUrl,
+          contentHash: manifest.content_hash,
+          tokenURI: metadataUrl,
+          domain: params.domain,
+          source_dataset: params.metadata.source_dataset,
+        },
+      },
+    });
+  } catch (error) {
+    console.error(`[job ${job_id}] Generation error:`, error);
+    return updateJob(job_id, {
+      status: "failed",
+      error: (error as Error).message,
+    });
+  }
+}
+
+// Runs a job to completion for routes that still answer synchronously
+const run_generation_job_sync = async (job: GenerationJob) => {
+  const finished = await run_generation_job(job.id);
+  if (finished.status !== "completed") {
+    throw new Error(finished.error || `Job ${finished.id} ${finished.status}`);
+  }
+  return finished;
+};
+
+// --- Progress streaming (Server-Sent Events) ---
+
+const SSE_HEARTBEAT_MS = 15000;
+
+// True when the caller asked for an event stream; ?stream=true works for
+// clients that can't set the Accept header
+const wants_event_stream = (req: Request) =>
+  req.query.stream === "true" ||
+  req.body?.stream === true ||
+  (req.headers.accept || "").includes("text/event-stream");
+
+// Replays the job's buffered events (after Last-Event-ID when reconnecting),
+// then follows live ones. Ends with a "done" event carrying the links and
+// ready_for_nft once the job finishes. With cancel_on_close, a client that
+// disconnects early cancels the job.
+function stream_job_events(
+  req: Request,
+  res: Response,
+  job_id: string,
+  cancel_on_close: boolean
+) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  let closed = false;
+  let unsubscribe = () => {};
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+
+  const write_event = (type: string, data: any, id?: number) => {
+    res.write(
+      `${id !== undefined ? `id: ${id}\n` : ""}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+    );
+  };
 
-      const verified_signed_data = verify_and_sign_data({
-        original_text,
-        synthetic_output,
-      });
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+    const job = getJob(job_id)!;
+    write_event("done", {
+      ...toJobSummary(job),
+      ready_for_nft: job.result?.ready_for_nft ?? null,
+      cost: job.result?.cost ?? null,
+    });
+    res.end();
+  };
 
-      if (verified_signed_data) {
-        synthetic_results.push(verified_signed_data);
-        console.log(
-          `  Successfully generated and verified synthetic data for row ${
-            i + 1
-          }.`
-        );
-      }
-    } catch (error) {
-      console.log(`  Error for row ${i + 1}: ${error}. Skipping.`);
+  const on_event = (event: JobEvent) => {
+    if (closed) return;
+    write_event(event.type, event.data, event.id);
+    if (event.type === "status" && isFinishedStatus(event.data.status)) {
+      finish();
     }
-  }
-  return synthetic_results;
-}
+  };
 
-function verify_and_sign_data(synthetic_row: {
-  original_text: string;
-  synthetic_output: any;
-}): SyntheticRow | null {
-  try {
-    const output = synthetic_row.synthetic_output;
-    if (
-      !["synthetic_transcription", "medical_specialty", "explanation"].every(
-        (key) => key in output && output[key]
-      )
-    ) {
-      console.log("  Verification failed: Missing or empty fields.");
-      return { ...synthetic_row, verification_status: "failed", signature: "" };
+  res.on("close", () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+    if (cancel_on_close && !isJobFinished(getJob(job_id)!)) {
+      console.log(`[job ${job_id}] Event stream closed by client, cancelling.`);
+      requestJobCancel(job_id);
     }
+  });
 
-    // Removed ECDSA logic as per request
-    return { ...synthetic_row, verification_status: "verified", signature: "" };
-  } catch (error) {
-    console.log(`  Error during verification/signing: ${error}`);
-    return null;
+  const last_event_id = Number(req.headers["last-event-id"]) || 0;
+  for (const event of getJobEvents(job_id, last_event_id)) {
+    on_event(event);
+  }
+  if (!closed) {
+    if (isJobFinished(getJob(job_id)!)) {
+      finish();
+    } else {
+      unsubscribe = subscribeJobEvents(job_id, on_event);
+    }
   }
 }
 
-// Main generate endpoint
-app.post("/api/generate", async (req: Request, res: Response) => {
+app.get("/api/generate/jobs/:jobId/events", (req: Request, res: Response) => {
+  const job = getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: `Job ${req.params.jobId} not found` });
+  }
+
+  stream_job_events(req, res, job.id, false);
+});
+
+// Main generate endpoint - starts a job and returns its id right away
+// Seeds come from input_text, a `seeds` array or a multipart CSV/JSONL "file"
+app.post("/api/generate", acceptSeedFile, async (req: Request, res: Response) => {
   const {
-    input_text,
     sample_size,
     domain,
     dataset_name,
@@ -207,12 +1767,12 @@ app.post("/api/generate", async (req: Request, res: Response) => {
     output_format,
     source_dataset,
     ai_model,
+    template_id,
+    output_schema,
   } = req.body;
 
   // Validate required fields
   const requiredFields = {
-    input_text,
-    sample_size,
     domain,
     dataset_name,
     description,
@@ -235,76 +1795,118 @@ app.post("/api/generate", async (req: Request, res: Response) => {
     });
   }
 
+  let seedInput: ReturnType<typeof read_generation_seeds>;
   try {
-    // Create sample_size variations of the input text
-    const input_data = Array(sample_size).fill({ text: input_text });
+    seedInput = read_generation_seeds(req.body, req.file, sample_size);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+  if (!seedInput) {
+    return res.status(400).json({
+      error: "Missing required fields",
+      missing_fields: ["input_text"],
+    });
+  }
+  const { seeds, variants_per_seed } = seedInput;
+  const sampleSize = seedInput.sample_size;
 
-    console.log(`Generating ${sample_size} synthetic data samples...`);
-    const synthetic = await generate_synthetic_data(model, input_data);
+  const requestError = checkGenerationRequest(req.body, ai_model);
+  if (requestError) {
+    return res.status(400).json({ error: requestError });
+  }
 
-    if (synthetic.length === 0) {
-      throw new Error("Generation failed, no results.");
-    }
+  try {
+    const input = redact_request_input(req.body, seeds.texts);
 
-    // Upload to Irys
-    console.log("Uploading generated data to Irys...");
-    const contentUrl = await uploadToIrys(synthetic, [
-      { name: "Content-Type", value: "application/json" },
-      { name: "App-Name", value: "SagaSynth" },
-      { name: "Type", value: "Dataset" },
-    ]);
+    const injection = screenSeeds(input.texts, parseInjectionPolicy(req.body.injection_policy)!);
+    const rejection = injectionRejection(injection);
+    if (rejection) {
+      return res.status(400).json(rejection);
+    }
 
-    const metadata = {
-      name: dataset_name,
-      description: description,
-      content_url: contentUrl,
-      sample_size: synthetic.length,
-      domain: domain,
-      model: ai_model,
-      max_tokens: max_tokens,
-      output_format: output_format,
-      source_dataset: source_dataset,
-      visibility: visibility,
-      price_usdc: typeof price_usdc === 'string' ? parseFloat(price_usdc) : price_usdc,
-      created_at: new Date().toISOString(),
-      input_text: input_text,
+    const params: GenerationParams = {
+      input_text: describe_seed_input(seeds, input.texts),
+      sample_size: sampleSize,
+      seeds: input.texts,
+      variants_per_seed,
+      domain,
+      metadata: {
+        name: dataset_name,
+        description: description,
+        domain: domain,
+        model: ai_model,
+        max_tokens: max_tokens,
+        output_format: output_format,
+        source_dataset: source_dataset,
+        visibility: visibility,
+        price_usdc: typeof price_usdc === 'string' ? parseFloat(price_usdc) : price_usdc,
+        input_text: describe_seed_input(seeds, input.texts),
+        seed_input: seedInputMetadata(seeds, variants_per_seed),
+        input_redaction: publicRedaction(input.redaction),
+      },
+      content_tags: [
+        { name: "Content-Type", value: "application/json" },
+        { name: "App-Name", value: "SagaSynth" },
+        { name: "Type", value: "Dataset" },
+      ],
+      metadata_tags: [
+        { name: "Content-Type", value: "application/json" },
+        { name: "App-Name", value: "SagaSynth" },
+        { name: "Type", value: "Metadata" },
+      ],
+      history: {},
+      ai_model,
+      template_id: resolvePromptTemplate(domain, template_id).id,
+      output_schema,
+      privacy_policy: req.body.privacy_policy,
+      dedup: parseDedupOptions(req.body.dedup),
+      judge: parseJudgeOptions(req.body.judge),
+      cache: parseCacheOptions(req.body.cache),
+      recipients: parseRecipients(req.body.recipients),
+      label_distribution: resolve_label_distribution(
+        req.body,
+        resolvePromptTemplate(domain, template_id)
+      ),
+      injection,
+      source_identifiers: input.identifiers,
+      export_format: parseOutputFormat(output_format)!,
+      max_output_tokens: Number(max_tokens) || undefined,
+      creator: req.body.creator,
+      generation: parseGenerationOptions(req.body),
     };
 
-    console.log("Uploading metadata to Irys...");
-    const metadataUrl = await uploadToIrys(metadata, [
-      { name: "Content-Type", value: "application/json" },
-      { name: "App-Name", value: "SagaSynth" },
-      { name: "Type", value: "Metadata" },
-    ]);
+    const job = createJob("generate", params, sampleSize);
 
-    // Save to history
-    const history = JSON.parse(fs.readFileSync(HISTORY_FILE, "utf-8"));
-    history.push({
-      input_text,
-      data: synthetic,
-      metadata: metadata,
-      created_at: new Date().toISOString(),
-      content_url: contentUrl,
-      metadata_url: metadataUrl,
+    const stream = wants_event_stream(req);
+    if (stream) {
+      publishJobEvent(job.id, "job", {
+        job_id: job.id,
+        rows_total: sampleSize,
+        seed_input: seedInputMetadata(seeds, variants_per_seed),
+        redaction: input.redaction,
+        cancel_url: `/api/generate/jobs/${job.id}/cancel`,
+      });
+    }
+
+    run_generation_job(job.id).catch((error) => {
+      console.error(`[job ${job.id}] Unexpected job error:`, error);
     });
-    fs.writeFileSync(HISTORY_FILE, JSON.stringify(history));
 
-    res.json({
+    if (stream) {
+      return stream_job_events(req, res, job.id, true);
+    }
+
+    res.status(202).json({
       success: true,
-      message: "Dataset generated successfully",
-      data: synthetic,
-      metadata: metadata,
-      irys_links: {
-        content_url: contentUrl,
-        metadata_url: metadataUrl,
-      },
-      ready_for_nft: {
-        sourceUrl: input_text,
-        contentLink: contentUrl,
-        tokenURI: metadataUrl,
-        domain: domain,
-        source_dataset: source_dataset,
-      },
+      message: "Generation job started",
+      job_id: job.id,
+      status: job.status,
+      rows_total: sampleSize,
+      seed_input: seedInputMetadata(seeds, variants_per_seed),
+      redaction: input.redaction,
+      ...(injection.flagged_seeds.length > 0 ? { injection } : {}),
+      status_url: `/api/generate/jobs/${job.id}`,
+      cancel_url: `/api/generate/jobs/${job.id}/cancel`,
     });
   } catch (error) {
     console.error("Generation error:", error);
@@ -315,14 +1917,291 @@ app.post("/api/generate", async (req: Request, res: Response) => {
   }
 });
 
+// Augments a Hugging Face dataset: the job pages through rows
+// [offset, offset + limit) of dataset/config/split, generates
+// variants_per_seed rows from each row's text_column and keeps the row's
+// label_column value in the template's label field. The result is published
+// as one dataset with the source provenance in its metadata.
+app.post("/api/generate/huggingface", async (req: Request, res: Response) => {
+  const {
+    domain,
+    dataset_name,
+    description,
+    visibility,
+    price_usdc,
+    max_tokens,
+    output_format,
+    ai_model,
+    template_id,
+    output_schema,
+  } = req.body;
+
+  const requiredFields = {
+    dataset: req.body.dataset,
+    domain,
+    dataset_name,
+    description,
+    visibility,
+    price_usdc,
+    max_tokens,
+    output_format,
+    ai_model,
+  };
+
+  const missingFields = Object.entries(requiredFields)
+    .filter(([key, value]) => value === undefined || value === null || value === "")
+    .map(([key]) => key);
+
+  if (missingFields.length > 0) {
+    return res.status(400).json({
+      error: "Missing required fields",
+      missing_fields: missingFields,
+    });
+  }
+
+  let source: HfSource;
+  let variants_per_seed: number;
+  try {
+    source = parseHfSource(req.body);
+    variants_per_seed = parseVariantsPerSeed(req.body.variants_per_seed) ?? 1;
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+  const rows_estimate = source.limit * variants_per_seed;
+  if (rows_estimate > MAX_GENERATION_ROWS) {
+    return res.status(400).json({
+      error: `${source.limit} rows x ${variants_per_seed} variants is ${rows_estimate} rows; the limit is ${MAX_GENERATION_ROWS}`,
+    });
+  }
+  if (source.label_column && req.body.label_distribution !== undefined) {
+    return res.status(400).json({
+      error: "label_distribution can't be combined with label_column; rows keep their source label",
+    });
+  }
+  if (source.label_column && output_schema !== undefined && !req.body.label_field) {
+    return res.status(400).json({
+      error: "label_column needs label_field when output_schema is set",
+    });
+  }
+
+  const requestError = checkGenerationRequest(req.body, ai_model);
+  if (requestError) {
+    return res.status(400).json({ error: requestError });
+  }
+
+  try {
+    const template = resolvePromptTemplate(domain, template_id);
+    const params: GenerationParams = {
+      input_text: `${source.limit} rows of ${source.dataset}`,
+      sample_size: rows_estimate,
+      variants_per_seed,
+      domain,
+      metadata: {
+        name: dataset_name,
+        description: description,
+        domain: domain,
+        model: ai_model,
+        max_tokens: max_tokens,
+        output_format: output_format,
+        source_dataset: req.body.source_dataset || source.dataset,
+        visibility: visibility,
+        price_usdc: typeof price_usdc === 'string' ? parseFloat(price_usdc) : price_usdc,
+      },
+      content_tags: [
+        { name: "Content-Type", value: "application/json" },
+        { name: "App-Name", value: "SagaSynth" },
+        { name: "Type", value: "Dataset" },
+        { name: "Source-Dataset", value: source.dataset },
+      ],
+      metadata_tags: [
+        { name: "Content-Type", value: "application/json" },
+        { name: "App-Name", value: "SagaSynth" },
+        { name: "Type", value: "Metadata" },
+      ],
+      history: {},
+      ai_model,
+      template_id: template.id,
+      output_schema,
+      privacy_policy: req.body.privacy_policy,
+      dedup: parseDedupOptions(req.body.dedup),
+      judge: parseJudgeOptions(req.body.judge),
+      cache: parseCacheOptions(req.body.cache),
+      recipients: parseRecipients(req.body.recipients),
+      label_distribution: resolve_label_distribution(req.body, template),
+      hf_source: source,
+      seed_screening: {
+        redact_input: req.body.redact_input,
+        redact_types: req.body.redact_types,
+        keep_redaction_map: req.body.keep_redaction_map,
+        injection_policy: parseInjectionPolicy(req.body.injection_policy)!,
+      },
+      ...(source.label_column
+        ? { seed_label_field: req.body.label_field || template.label_field }
+        : {}),
+      export_format: parseOutputFormat(output_format)!,
+      max_output_tokens: Number(max_tokens) || undefined,
+      creator: req.body.creator,
+      generation: parseGenerationOptions(req.body),
+    };
+
+    const job = createJob("huggingface-augment", params, rows_estimate);
+
+    const stream = wants_event_stream(req);
+    if (stream) {
+      publishJobEvent(job.id, "job", {
+        job_id: job.id,
+        rows_total: rows_estimate,
+        source,
+        cancel_url: `/api/generate/jobs/${job.id}/cancel`,
+      });
+    }
+
+    run_generation_job(job.id).catch((error) => {
+      console.error(`[job ${job.id}] Unexpected job error:`, error);
+    });
+
+    if (stream) {
+      return stream_job_events(req, res, job.id, true);
+    }
+
+    res.status(202).json({
+      success: true,
+      message: "Augmentation job started",
+      job_id: job.id,
+      status: job.status,
+      // Final once the rows are fetched; rows without text are skipped
+      rows_total: rows_estimate,
+      source,
+      status_url: `/api/generate/jobs/${job.id}`,
+      cancel_url: `/api/generate/jobs/${job.id}/cancel`,
+    });
+  } catch (error) {
+    console.error("Augmentation error:", error);
+    res.status(500).json({
+      error: "Augmentation failed",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// List generation jobs, newest first
+app.get("/api/generate/jobs", (req: Request, res: Response) => {
+  const jobs = listJobs().map(toJobSummary);
+  res.json({
+    total_jobs: jobs.length,
+    jobs: jobs.slice(0, 100),
+  });
+});
+
+// Job status; includes the dataset and NFT payload once completed
+app.get("/api/generate/jobs/:jobId", (req: Request, res: Response) => {
+  const job = getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: `Job ${req.params.jobId} not found` });
+  }
+
+  res.json({
+    ...toJobSummary(job),
+    result: job.status === "completed" ? job.result : null,
+  });
+});
+
+// Cancel a queued or running job
+app.post("/api/generate/jobs/:jobId/cancel", (req: Request, res: Response) => {
+  const job = getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: `Job ${req.params.jobId} not found` });
+  }
+
+  if (isJobFinished(job)) {
+    return res.status(409).json({
+      ...toJobSummary(job),
+      error: `Job ${job.id} already ${job.status}`,
+    });
+  }
+
+  const updated = requestJobCancel(job.id);
+  res.json({
+    success: true,
+    message: "Cancellation requested",
+    ...toJobSummary(updated),
+  });
+});
+
+// Restarts a failed or cancelled job. Rows already in its checkpoint are
+// reused, so only the missing ones, and those that failed on a retryable
+// error, go to the model.
+app.post("/api/generate/jobs/:jobId/resume", (req: Request, res: Response) => {
+  const job = getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: `Job ${req.params.jobId} not found` });
+  }
+
+  if (job.status !== "failed" && job.status !== "cancelled") {
+    return res.status(409).json({
+      ...toJobSummary(job),
+      error: `Only failed or cancelled jobs can be resumed, job ${job.id} is ${job.status}`,
+    });
+  }
+
+  resetJobEvents(job.id);
+  const resumed = updateJob(job.id, {
+    status: "queued",
+    cancel_requested: false,
+    error: null,
+    rows_done: 0,
+    rows_failed: 0,
+    failures: [],
+  });
+
+  const stream = wants_event_stream(req);
+  if (stream) {
+    publishJobEvent(job.id, "job", {
+      job_id: job.id,
+      rows_total: job.rows_total,
+      resumed: true,
+      cancel_url: `/api/generate/jobs/${job.id}/cancel`,
+    });
+  }
+
+  run_generation_job(job.id).catch((error) => {
+    console.error(`[job ${job.id}] Unexpected job error:`, error);
+  });
+
+  if (stream) {
+    return stream_job_events(req, res, job.id, true);
+  }
+
+  res.status(202).json({
+    success: true,
+    message: "Generation job resumed",
+    ...toJobSummary(resumed),
+    status_url: `/api/generate/jobs/${job.id}`,
+    cancel_url: `/api/generate/jobs/${job.id}/cancel`,
+  });
+});
+
 // Test Your Prompt endpoint - only requires input_text and domain
 app.post("/api/test-prompt", async (req: Request, res: Response) => {
-  const { input_text, domain } = req.body;
+  const {
+    input_text,
+    domain,
+    ai_model = DEFAULT_AI_MODEL,
+    template_id,
+    output_schema,
+  } = req.body;
 
   if (!input_text || !domain) {
     return res.status(400).json({ error: "input_text and domain are required" });
   }
 
+  const requestError = checkGenerationRequest(req.body, ai_model);
+  if (requestError) {
+    return res.status(400).json({ error: requestError });
+  }
+
+  const template = resolvePromptTemplate(domain, template_id);
+
   // Fixed parameters for testing
   const sample_size = 3;
   const dataset_name = "Test Dataset";
@@ -332,17 +2211,64 @@ app.post("/api/test-prompt", async (req: Request, res: Response) => {
   const max_tokens = 3000;
   const output_format = "Structured JSON";
   const source_dataset = "galileo-ai/medical_transcription_40";
-  const ai_model = "gemini-2.5-flash";
 
   try {
+    const input = redact_request_input(req.body, [input_text]);
+    const redacted_text = input.texts[0];
+
+    const injection = screenSeeds(input.texts, parseInjectionPolicy(req.body.injection_policy)!);
+    const rejection = injectionRejection(injection);
+    if (rejection) {
+      return res.status(400).json(rejection);
+    }
+
     // Create sample_size variations of the input text
-    const input_data = Array(sample_size).fill({ text: input_text });
+    const input_data = Array(sample_size).fill({ text: redacted_text });
 
     console.log(`Testing prompt with ${sample_size} synthetic data samples...`);
-    const synthetic = await generate_synthetic_data(model, input_data);
+    const {
+      rows: synthetic,
+      failures,
+      quarantined,
+      privacy_report,
+      dedup_report,
+      judge_report,
+      label_report,
+      injection_report,
+      cache_report,
+      usage,
+    } = await generate_synthetic_data(
+      getProvider(ai_model),
+      {
+        template,
+        output_schema,
+        privacy_policy: req.body.privacy_policy,
+        dedup: parseDedupOptions(req.body.dedup),
+        max_output_tokens: max_tokens,
+        judge: resolve_row_judge(parseJudgeOptions(req.body.judge), domain, ai_model),
+        label_distribution: resolve_label_distribution(req.body, template),
+        injection,
+        source_identifiers: input.identifiers,
+        cache: parseCacheOptions(req.body.cache),
+      },
+      input_data,
+      {},
+      parseGenerationOptions(req.body)
+    );
 
     if (synthetic.length === 0) {
-      throw new Error("Generation failed, no results.");
+      return res.status(500).json({
+        error: "Prompt test failed",
+        details: "Generation failed, no results.",
+        failures,
+        quarantined,
+        privacy_report,
+        dedup_report,
+        judge_report,
+        label_report,
+        injection_report,
+        cache_report,
+      });
     }
 
     res.json({
@@ -360,76 +2286,310 @@ app.post("/api/test-prompt", async (req: Request, res: Response) => {
         source_dataset,
         ai_model,
       },
+      prompt_template: { id: template.id, version: template.version },
+      prompt: renderPrompt(template, redacted_text, output_schema),
       data: synthetic,
-      input_text: input_text,
+      failures,
+      quarantined,
+      privacy_report,
+      dedup_report,
+      judge_report,
+      label_report,
+      injection_report,
+      cache_report,
+      quality: computeQualityMetrics(
+        synthetic,
+        req.body.label_field || (output_schema ? null : template.label_field)
+      ),
+      cost: buildCostBreakdown(ai_model, max_tokens, usage, null),
+      input_text: redacted_text,
+      redaction: input.redaction,
+    });
+  } catch (error) {
+    console.error("Prompt test error:", error);
+    res.status(500).json({
+      error: "Prompt test failed",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Prompt templates available for the domain / template_id fields
+app.get("/api/prompt-templates", (req: Request, res: Response) => {
+  res.json({
+    templates: listPromptTemplates().map((template) => ({
+      id: template.id,
+      version: template.version,
+      description: template.description,
+      domains: template.domains,
+      output_fields: template.output_fields,
+      label_field: template.label_field,
+    })),
+  });
+});
+
+// Judge rubrics available for the judge.rubric_id field
+app.get("/api/judge/rubrics", (req: Request, res: Response) => {
+  res.json({ rubrics: listJudgeRubrics() });
+});
+
+// Operator-only routes: moving the server wallet's money and emptying the
+// response cache. They are off unless IRYS_ADMIN_TOKEN is set, and then need
+// it as a bearer token.
+const IRYS_ADMIN_TOKEN = process.env.IRYS_ADMIN_TOKEN || "";
+
+const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!IRYS_ADMIN_TOKEN) {
+    return res.status(403).json({
+      error: `${req.method} ${req.path} is disabled; set IRYS_ADMIN_TOKEN to enable it`,
+    });
+  }
+  const given = Buffer.from(/^Bearer (.+)$/.exec(req.get("authorization") || "")?.[1] || "");
+  const expected = Buffer.from(IRYS_ADMIN_TOKEN);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return res.status(401).json({ error: "A valid admin token is required" });
+  }
+  next();
+};
+
+// Size and hit/miss counts of the LLM response cache
+app.get("/api/cache", (req: Request, res: Response) => {
+  res.json(cacheStats());
+});
+
+app.delete("/api/cache", requireAdmin, (req: Request, res: Response) => {
+  try {
+    res.json({ removed: clearResponseCache() });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to clear the response cache",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Positive wei amount from a request body, or null
+const parseWei = (value: any) => {
+  if ((typeof value !== "string" && typeof value !== "number") || !/^\d+$/.test(String(value))) {
+    return null;
+  }
+  const amount = BigInt(value);
+  return amount > BigInt(0) ? amount : null;
+};
+
+app.get("/api/irys/balance", async (req: Request, res: Response) => {
+  try {
+    res.json({ ...(await getIrysBalance()), budget: budgetStatus() });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to read the Irys balance",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Price of a payload size, and whether paying it would need funding the caps allow
+app.get("/api/irys/quote", async (req: Request, res: Response) => {
+  const bytes = Number(req.query.bytes);
+  if (!Number.isInteger(bytes) || bytes <= 0) {
+    return res.status(400).json({ error: "bytes must be a positive integer" });
+  }
+  try {
+    const quote = await quoteIrys(bytes);
+    let budget_error: string | null = null;
+    if (quote.needs_funding) {
+      try {
+        assertWithinBudget(BigInt(quote.price_wei));
+      } catch (error) {
+        budget_error = (error as Error).message;
+      }
+    }
+    res.json({ ...quote, within_budget: budget_error === null, budget_error });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to quote the upload",
+      details: (error as Error).message,
+    });
+  }
+});
+
+app.post("/api/irys/fund", requireAdmin, async (req: Request, res: Response) => {
+  const amount = parseWei(req.body.amount_wei);
+  if (amount === null) {
+    return res.status(400).json({ error: "amount_wei must be a positive integer amount in wei" });
+  }
+  try {
+    const entry = await fundIrys(amount);
+    res.json({ success: true, entry, ...(await getIrysBalance()), budget: budgetStatus() });
+  } catch (error) {
+    if (error instanceof IrysBudgetError) {
+      return res.status(402).json({ error: error.message, budget: budgetStatus() });
+    }
+    console.error("Irys funding error:", error);
+    res.status(500).json({
+      error: "Failed to fund the Irys balance",
+      details: (error as Error).message,
     });
+  }
+});
+
+// Returns unused balance to the server wallet; amount_wei may be "all"
+app.post("/api/irys/withdraw", requireAdmin, async (req: Request, res: Response) => {
+  const amount = req.body.amount_wei === "all" ? "all" : parseWei(req.body.amount_wei);
+  if (amount === null) {
+    return res
+      .status(400)
+      .json({ error: 'amount_wei must be a positive integer amount in wei, or "all"' });
+  }
+  try {
+    const entry = await withdrawIrys(amount);
+    res.json({ success: true, entry, ...(await getIrysBalance()) });
   } catch (error) {
-    console.error("Prompt test error:", error);
+    console.error("Irys withdrawal error:", error);
     res.status(500).json({
-      error: "Prompt test failed",
+      error: "Failed to withdraw the Irys balance",
       details: (error as Error).message,
     });
   }
 });
 
-app.post("/api/generate/test", async (req: Request, res: Response) => {
-  const { input_text, domain = "medical" } = req.body;
+app.get("/api/irys/ledger", (req: Request, res: Response) => {
+  const limit = Number(req.query.limit ?? 100);
+  const { type } = req.query;
+  if (!Number.isInteger(limit) || limit <= 0) {
+    return res.status(400).json({ error: "limit must be a positive integer" });
+  }
+  if (type !== undefined && type !== "fund" && type !== "withdraw") {
+    return res.status(400).json({ error: 'type must be "fund" or "withdraw"' });
+  }
+  res.json({
+    entries: readLedger(limit, type as LedgerEntryType | undefined),
+    budget: budgetStatus(),
+  });
+});
+
+// Restores redacted placeholders using a locally kept redaction map. The
+// values are as sensitive as the original input, so only the map's owner (the
+// run's creator) can do this, with a challenge from /api/keys/challenge for
+// redaction_map_id signed by that address.
+app.post("/api/redaction/:mapId/reverse", (req: Request, res: Response) => {
+  const map = loadRedactionMap(req.params.mapId);
+  if (!map) {
+    return res.status(404).json({ error: `Redaction map ${req.params.mapId} not found` });
+  }
 
+  const { text, nonce, signature } = req.body;
+  if (typeof text !== "string") {
+    return res.status(400).json({ error: "text is required" });
+  }
+  if (typeof nonce !== "string" || typeof signature !== "string") {
+    return res.status(400).json({ error: "nonce and signature are required" });
+  }
+
+  let challenge;
   try {
-    // Create 3 variations of the input text
-    const test_data = [
-      { text: input_text },
-      { text: input_text },
-      { text: input_text },
-    ];
+    challenge = consumeKeyChallenge(nonce, signature);
+  } catch (error) {
+    return res.status(401).json({ error: (error as Error).message });
+  }
+  if (challenge.target.redaction_map_id !== req.params.mapId) {
+    return res.status(401).json({ error: "Challenge was issued for another target" });
+  }
+  if (!map.owner || map.owner.toLowerCase() !== challenge.address.toLowerCase()) {
+    return res.status(403).json({
+      error: `${challenge.address} is not the owner of redaction map ${req.params.mapId}`,
+    });
+  }
 
-    const synthetic = await generate_synthetic_data(model, test_data);
-    if (synthetic.length === 0) {
-      throw new Error("Generation failed, no results.");
-    }
+  res.json({ text: reverseRedaction(text, map.mapping) });
+});
 
-    // --- Irys Upload Logic ---
-    console.log("Uploading generated data to Irys...");
-    const contentUrl = await uploadToIrys(synthetic, [
-      { name: "Content-Type", value: "application/json" },
-      { name: "App-Name", value: "Saga-AI-Generator" },
-    ]);
+app.post("/api/generate/test", async (req: Request, res: Response) => {
+  const {
+    input_text,
+    domain = "medical",
+    ai_model = DEFAULT_AI_MODEL,
+    template_id,
+    output_schema,
+  } = req.body;
 
-    const metadata = {
-      name: `Synthetic Dataset for: ${input_text.substring(0, 30)}...`,
-      description: `A synthetic dataset generated based on the input: "${input_text}"`,
-      content_url: contentUrl,
-      domain: domain,
-      created_at: new Date().toISOString(),
-    };
+  const requestError = checkGenerationRequest(req.body, ai_model);
+  if (requestError) {
+    return res.status(400).json({ detail: requestError });
+  }
 
-    console.log("Uploading metadata to Irys...");
-    const metadataUrl = await uploadToIrys(metadata, [
-      { name: "Content-Type", value: "application/json" },
-      { name: "App-Name", value: "Saga-AI-Generator-Metadata" },
-    ]);
-    // --- End Irys Upload Logic ---
+  if (!input_text) {
+    return res.status(400).json({ detail: "input_text is required" });
+  }
 
-    // Save to local history (append)
-    const history = JSON.parse(fs.readFileSync(HISTORY_FILE, "utf-8"));
-    history.push({
-      input_text,
+  try {
+    const input = redact_request_input(req.body, [input_text]);
+    const redacted_text = input.texts[0];
+
+    const injection = screenSeeds(input.texts, parseInjectionPolicy(req.body.injection_policy)!);
+    const rejection = injectionRejection(injection);
+    if (rejection) {
+      return res.status(400).json(rejection);
+    }
+
+    // Create 3 variations of the input text
+    const params: GenerationParams = {
+      input_text: redacted_text,
+      sample_size: 3,
       domain,
-      data: synthetic,
-      created_at: new Date().toISOString(),
-      content_url: contentUrl,
-      metadata_url: metadataUrl,
-    });
-    fs.writeFileSync(HISTORY_FILE, JSON.stringify(history));
+      metadata: {
+        name: `Synthetic Dataset for: ${redacted_text.substring(0, 30)}...`,
+        description: `A synthetic dataset generated based on the input: "${redacted_text}"`,
+        domain: domain,
+        input_redaction: publicRedaction(input.redaction),
+      },
+      content_tags: [
+        { name: "Content-Type", value: "application/json" },
+        { name: "App-Name", value: "Saga-AI-Generator" },
+      ],
+      metadata_tags: [
+        { name: "Content-Type", value: "application/json" },
+        { name: "App-Name", value: "Saga-AI-Generator-Metadata" },
+      ],
+      history: {},
+      ai_model,
+      template_id: resolvePromptTemplate(domain, template_id).id,
+      output_schema,
+      privacy_policy: req.body.privacy_policy,
+      dedup: parseDedupOptions(req.body.dedup),
+      judge: parseJudgeOptions(req.body.judge),
+      cache: parseCacheOptions(req.body.cache),
+      recipients: parseRecipients(req.body.recipients),
+      label_distribution: resolve_label_distribution(
+        req.body,
+        resolvePromptTemplate(domain, template_id)
+      ),
+      injection,
+      source_identifiers: input.identifiers,
+      max_output_tokens: Number(req.body.max_tokens) || undefined,
+      creator: req.body.creator,
+      generation: parseGenerationOptions(req.body),
+    };
+
+    const job = await run_generation_job_sync(
+      createJob("generate-test", params, params.sample_size)
+    );
 
     res.json({
       message: "Test generation and Irys upload successful",
-      input_text,
-      data: synthetic,
-      irys_links: {
-        content_url: contentUrl,
-        metadata_url: metadataUrl,
-      },
+      job_id: job.id,
+      input_text: redacted_text,
+      redaction: input.redaction,
+      data: job.result.data,
+      failures: job.result.failures,
+      privacy_report: job.result.privacy_report,
+      dedup_report: job.result.dedup_report,
+      judge_report: job.result.judge_report,
+      label_report: job.result.label_report,
+      injection_report: job.result.injection_report,
+      cache_report: job.result.cache_report,
+      cost: job.result.cost,
+      irys_links: job.result.irys_links,
     });
   } catch (error) {
     res.status(500).json({ detail: (error as Error).message });
@@ -457,6 +2617,7 @@ app.get("/api/generate/history", (req: Request, res: Response) => {
         filename: "test.csv", // Mock
       },
       data: record.data,
+      cost: record.cost ?? null,
     }));
 
     formatted_history.sort(
@@ -476,6 +2637,25 @@ app.get("/api/generate/history", (req: Request, res: Response) => {
   }
 });
 
+// LLM token and Irys totals over every run accounted to an address
+app.get("/api/costs/creator/:address", (req: Request, res: Response) => {
+  const { address } = req.params;
+  if (!ethers.isAddress(address)) {
+    return res.status(400).json({ error: "Invalid address" });
+  }
+
+  try {
+    const history = JSON.parse(fs.readFileSync(HISTORY_FILE, "utf-8"));
+    res.json(sumCreatorCosts(history, address));
+  } catch (error) {
+    console.error("Creator costs error:", error);
+    res.status(500).json({
+      error: "Failed to get creator costs",
+      details: (error as Error).message,
+    });
+  }
+});
+
 // --- NFT & Blockchain API Endpoints ---
 
 // Get contract instance helper
@@ -526,7 +2706,7 @@ app.post("/api/dataset/upload", async (req: Request, res: Response) => {
       { name: "Type", value: "Dataset" },
     ];
 
-    const dataUrl = await uploadToIrys(data, dataTags);
+    const { url: dataUrl, deduplicated, stored_at } = await putObject(data, dataTags);
 
     // Create content hash
     const crypto = await import("crypto");
@@ -535,12 +2715,14 @@ app.post("/api/dataset/upload", async (req: Request, res: Response) => {
       .update(JSON.stringify(data))
       .digest("hex");
 
-    // Upload metadata to Irys
+    // Upload metadata to Irys. createdAt is when the data was first stored,
+    // so uploading the same data and metadata again produces the same bytes
+    // and is deduplicated too, instead of paying for a fresh metadata object
     const metadataWithLinks = {
       ...metadata,
       dataUrl,
       contentHash,
-      createdAt: new Date().toISOString(),
+      createdAt: stored_at || new Date().toISOString(),
     };
 
     const metadataTags = [
@@ -549,7 +2731,7 @@ app.post("/api/dataset/upload", async (req: Request, res: Response) => {
       { name: "Type", value: "Metadata" },
     ];
 
-    const metadataUrl = await uploadToIrys(metadataWithLinks, metadataTags);
+    const { url: metadataUrl } = await putObject(metadataWithLinks, metadataTags);
 
     // Auto mint NFT after upload (temporarily disabled for testing)
     console.log("Skipping NFT minting for testing...");
@@ -561,6 +2743,8 @@ app.post("/api/dataset/upload", async (req: Request, res: Response) => {
       dataUrl,
       metadataUrl,
       contentHash: "0x" + contentHash,
+      // The same data was uploaded before; dataUrl is that upload's
+      deduplicated: !!deduplicated,
       nft: {
         tokenId: tokenId,
         transactionHash: "mock_tx_hash",
@@ -579,6 +2763,9 @@ app.post("/api/dataset/upload", async (req: Request, res: Response) => {
       },
     });
   } catch (error) {
+    if (error instanceof IrysBudgetError) {
+      return res.status(402).json({ error: error.message, budget: budgetStatus() });
+    }
     console.error("Upload error:", error);
     res.status(500).json({
       error: "Upload failed",
@@ -626,6 +2813,11 @@ app.post("/api/nft/mint", async (req: Request, res: Response) => {
     );
 
     const tokenId = event ? event.args[0].toString() : null;
+    // Owners of this token may now receive the key of a private dataset with
+    // the same content hash
+    if (tokenId && typeof contentHash === "string") {
+      bindEncryptedDatasetToken(contentHash, tokenId);
+    }
 
     res.json({
       success: true,
@@ -670,6 +2862,113 @@ app.get("/api/nft/:tokenId", async (req: Request, res: Response) => {
   }
 });
 
+// --- Private dataset key release ---
+
+// A private dataset's metadata, this server's record of it and the addresses
+// entitled to its key. The metadata only points at the record (through the
+// dataset id the gateway wrap is bound to); who is entitled comes from the
+// record: the recipients the dataset was published for, and, asked through a
+// token, the token's current owner if /api/nft/mint bound that token to the
+// record. Anyone can mint a token with any hash and tokenURI, so the on-chain
+// fields alone prove nothing.
+async function load_key_release_target(target: KeyReleaseTarget) {
+  let metadata_url = target.metadata_url!;
+  let token: { token_id: string; owner: string } | undefined;
+  if (target.token_id !== undefined) {
+    const { contract } = await getContract();
+    const [owner, tokenURI] = await Promise.all([
+      contract.ownerOf(target.token_id),
+      contract.tokenURI(target.token_id),
+    ]);
+    token = { token_id: target.token_id, owner: String(owner) };
+    metadata_url = tokenURI;
+  }
+  const metadata = JSON.parse((await fetchObject(metadata_url)).data.toString("utf-8"));
+  const encryption: DatasetEncryption | undefined = metadata.encryption;
+  const record = findEncryptedDataset(encryption?.dataset_id);
+  const entitled = record ? entitledAddresses(record, token) : [];
+  return { metadata, encryption, record, entitled };
+}
+
+// Step 1: a message for the caller to sign with the address that owns the
+// NFT (or was named as a recipient), or that owns a redaction map
+app.post("/api/keys/challenge", (req: Request, res: Response) => {
+  const { address, token_id, metadata_url, redaction_map_id } = req.body;
+  if (typeof address !== "string" || !ethers.isAddress(address)) {
+    return res.status(400).json({ error: "address must be an address" });
+  }
+  const targets = [token_id, metadata_url, redaction_map_id];
+  if (targets.filter((value) => value !== undefined).length !== 1) {
+    return res
+      .status(400)
+      .json({ error: "Send exactly one of token_id, metadata_url or redaction_map_id" });
+  }
+  if (redaction_map_id !== undefined && typeof redaction_map_id !== "string") {
+    return res.status(400).json({ error: "redaction_map_id must be a string" });
+  }
+  if (token_id !== undefined && !/^\d+$/.test(String(token_id))) {
+    return res.status(400).json({ error: "token_id must be a non-negative integer" });
+  }
+  if (metadata_url !== undefined && typeof metadata_url !== "string") {
+    return res.status(400).json({ error: "metadata_url must be a string" });
+  }
+  const challenge = createKeyChallenge(
+    address,
+    token_id !== undefined
+      ? { token_id: String(token_id) }
+      : redaction_map_id !== undefined
+        ? { redaction_map_id }
+        : { metadata_url }
+  );
+  res.json(challenge);
+});
+
+// Step 2: the signed challenge in exchange for the dataset's data key
+app.post("/api/keys/release", async (req: Request, res: Response) => {
+  const { nonce, signature } = req.body;
+  if (typeof nonce !== "string" || typeof signature !== "string") {
+    return res.status(400).json({ error: "nonce and signature are required" });
+  }
+
+  let challenge;
+  try {
+    challenge = consumeKeyChallenge(nonce, signature);
+  } catch (error) {
+    return res.status(401).json({ error: (error as Error).message });
+  }
+  if (challenge.target.redaction_map_id !== undefined) {
+    return res.status(401).json({ error: "Challenge was issued for another target" });
+  }
+
+  try {
+    const { encryption, record, entitled } = await load_key_release_target(challenge.target);
+    if (!encryption) {
+      return res.status(404).json({ error: "Dataset is not encrypted" });
+    }
+    if (!record) {
+      return res.status(404).json({ error: "Dataset was not encrypted by this server" });
+    }
+    if (!entitled.includes(challenge.address.toLowerCase())) {
+      return res.status(403).json({
+        error: `${challenge.address} neither owns the dataset's NFT nor is a recipient of the dataset`,
+      });
+    }
+    console.log(`Releasing dataset key for ${record.content_url} to ${challenge.address}`);
+    res.json({
+      address: challenge.address,
+      content_url: record.content_url,
+      key: unwrapGatewayKey(encryption).toString("base64"),
+      encryption,
+    });
+  } catch (error) {
+    console.error("Key release error:", error);
+    res.status(500).json({
+      error: "Failed to release the dataset key",
+      details: (error as Error).message,
+    });
+  }
+});
+
 // 4. Get all NFTs by creator
 app.get("/api/nft/creator/:address", async (req: Request, res: Response) => {
   try {
@@ -900,14 +3199,11 @@ app.get("/api/marketplace/nfts", async (req: Request, res: Response) => {
         const metadata = await contract.getMetadata(id);
 
         // Fetch actual metadata from Irys if available
-        let metadataContent = null;
+        let metadataContent: any = null;
         try {
           const tokenURI = await contract.tokenURI(id);
           if (tokenURI) {
-            const response = await fetch(tokenURI);
-            if (response.ok) {
-              metadataContent = await response.json();
-            }
+            metadataContent = JSON.parse((await fetchObject(tokenURI)).data.toString("utf-8"));
           }
         } catch (e) {
           console.log("Could not fetch metadata content:", e);
@@ -922,6 +3218,7 @@ app.get("/api/marketplace/nfts", async (req: Request, res: Response) => {
           createdAt: Number(metadata.created_at),
           tags: metadata.tags,
           owner: metadata.owner,
+          quality: metadataContent?.quality ?? null,
           metadata: metadataContent,
         };
       })
@@ -940,31 +3237,219 @@ app.get("/api/marketplace/nfts", async (req: Request, res: Response) => {
   }
 });
 
-// 7. Get dataset preview from Irys
-app.get("/api/dataset/preview", async (req: Request, res: Response) => {
+// Objects of the local storage backend. Ids are content hashes, so a
+// response never changes and can be cached for good.
+app.get("/storage/:id", async (req: Request, res: Response) => {
+  const storage = getStorage();
+  if (storage.name !== "local") {
+    return res.status(404).json({ error: "Local storage is not enabled" });
+  }
+  try {
+    const { data, content_type } = await storage.get(req.params.id);
+    res.set({
+      "Content-Type": content_type || "application/octet-stream",
+      "Cache-Control": "public, max-age=31536000, immutable",
+      ETag: `"${req.params.id}"`,
+    });
+    res.send(data);
+  } catch (error) {
+    if (error instanceof StorageNotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({
+      error: "Failed to read object",
+      details: (error as Error).message,
+    });
+  }
+});
+
+interface DatasetRead {
+  format: ExportFormat;
+  rows: any[];
+  total_rows: number;
+  // SHA-256 of a single object, or the Merkle root of a chunked dataset
+  content_hash: string;
+  single?: boolean;
+  files?: string[];
+  chunks: { merkle_root: string; total: number; fetched: number } | null;
+}
+
+const MAX_DOWNLOAD_ROWS = 10000;
+
+// Rows behind a dataset link, all of them or rows [offset, offset + limit).
+// For a chunk manifest only the chunks covering the range are fetched, and
+// each is checked against the Merkle root. A single object is fetched whole.
+// expected_root (e.g. the content_hash minted on-chain) pins the content.
+// Throws EncryptedDatasetError for encrypted content.
+async function read_dataset(
+  url: string,
+  range?: { offset: number; limit: number },
+  expected_root?: string | null
+): Promise<DatasetRead> {
+  const slice = (rows: any[], first_row = 0) =>
+    range
+      ? rows.slice(Math.max(0, range.offset - first_row), range.offset + range.limit - first_row)
+      : rows;
+
+  const { data, content_type } = await fetchObject(url);
+  const manifest = readChunkManifest(data);
+  if (!manifest) {
+    if (content_type?.startsWith(ENCRYPTED_CONTENT_TYPE)) {
+      throw new EncryptedDatasetError();
+    }
+    const content_hash = "0x" + sha256Hex(data);
+    if (expected_root && expected_root.toLowerCase() !== content_hash) {
+      throw new Error(`Content hash ${content_hash} does not match the expected ${expected_root}`);
+    }
+    const parsed = parseDataset(data, content_type);
+    return {
+      ...parsed,
+      rows: parsed.single ? parsed.rows : slice(parsed.rows),
+      total_rows: parsed.rows.length,
+      content_hash,
+      chunks: null,
+    };
+  }
+
+  verifyChunkManifest(manifest, expected_root);
+  if (manifest.encrypted) {
+    throw new EncryptedDatasetError();
+  }
+  const needed = range
+    ? chunksForRange(manifest, range.offset, range.limit)
+    : manifest.chunks;
+  const rows: any[] = [];
+  for (const chunk of needed) {
+    const { data: chunk_data } = await fetchObject(chunk.url);
+    verifyChunk(chunk, chunk_data);
+    rows.push(...slice(parseDataset(chunk_data, manifest.content_type).rows, chunk.row_start));
+  }
+  return {
+    format: manifest.format,
+    rows,
+    total_rows: manifest.row_count,
+    content_hash: manifest.merkle_root,
+    chunks: {
+      merkle_root: manifest.merkle_root,
+      total: manifest.chunks.length,
+      fetched: needed.length,
+    },
+  };
+}
+
+// Rows [offset, offset + limit) of a dataset; chunked datasets only fetch
+// the chunks holding them
+app.get("/api/dataset/download", async (req: Request, res: Response) => {
+  const { url, root } = req.query;
+  const offset = Number(req.query.offset ?? 0);
+  const limit = Number(req.query.limit ?? 100);
+
+  if (!url || typeof url !== "string") {
+    return res.status(400).json({ error: "URL parameter is required" });
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return res.status(400).json({ error: "offset must be a non-negative integer" });
+  }
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_DOWNLOAD_ROWS) {
+    return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_DOWNLOAD_ROWS}` });
+  }
+
+  try {
+    const dataset = await read_dataset(
+      url,
+      { offset, limit },
+      typeof root === "string" ? root : null
+    );
+    if (dataset.single) {
+      return res.status(400).json({ error: "Dataset at url is not an array of rows" });
+    }
+    res.json({
+      url,
+      format: dataset.format,
+      offset,
+      limit,
+      total_rows: dataset.total_rows,
+      content_hash: dataset.content_hash,
+      ...(dataset.chunks ? { chunks: dataset.chunks } : {}),
+      rows: dataset.rows,
+    });
+  } catch (error) {
+    if (error instanceof EncryptedDatasetError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Download error:", error);
+    res.status(500).json({
+      error: "Failed to download dataset rows",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Quality and diversity metrics for any dataset content link
+app.get("/api/dataset/quality", async (req: Request, res: Response) => {
   try {
-    const { url } = req.query;
+    const { url, label_field } = req.query;
 
     if (!url || typeof url !== "string") {
       return res.status(400).json({ error: "URL parameter is required" });
     }
 
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch from ${url}`);
+    const dataset = await read_dataset(url);
+    if (dataset.single) {
+      return res.status(400).json({ error: "Dataset at url is not an array of rows" });
+    }
+
+    res.json({
+      url,
+      format: dataset.format,
+      ...(dataset.chunks ? { chunks: dataset.chunks } : {}),
+      quality: computeQualityMetrics(
+        dataset.rows,
+        typeof label_field === "string" ? label_field : null
+      ),
+    });
+  } catch (error) {
+    if (error instanceof EncryptedDatasetError) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error("Quality metrics error:", error);
+    res.status(500).json({
+      error: "Failed to compute quality metrics",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// 7. Get dataset preview from Irys
+app.get("/api/dataset/preview", async (req: Request, res: Response) => {
+  try {
+    const { url, root } = req.query;
 
-    const data = await response.json();
+    if (!url || typeof url !== "string") {
+      return res.status(400).json({ error: "URL parameter is required" });
+    }
 
-    // Return first 5 rows for preview
-    const preview = Array.isArray(data) ? data.slice(0, 5) : data;
+    // Return first 5 rows for preview; a chunked dataset only fetches the
+    // chunks holding them
+    const dataset = await read_dataset(
+      url,
+      { offset: 0, limit: 5 },
+      typeof root === "string" ? root : null
+    );
+    const preview = dataset.single ? dataset.rows[0] : dataset.rows;
 
     res.json({
       preview,
-      totalRows: Array.isArray(data) ? data.length : 1,
+      format: dataset.format,
+      ...(dataset.files ? { files: dataset.files } : {}),
+      ...(dataset.chunks ? { chunks: dataset.chunks } : {}),
+      totalRows: dataset.total_rows,
       previewRows: Array.isArray(preview) ? preview.length : 1,
     });
   } catch (error) {
+    if (error instanceof EncryptedDatasetError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error("Preview error:", error);
     res.status(500).json({
       error: "Failed to get preview",
@@ -973,22 +3458,117 @@ app.get("/api/dataset/preview", async (req: Request, res: Response) => {
   }
 });
 
+// 8. Verify row and manifest signatures, from rows in the body or a dataset URL
+app.post("/api/verify", async (req: Request, res: Response) => {
+  try {
+    const { rows, url, metadata_url, expected_signer } = req.body;
+
+    if (!Array.isArray(rows) && !url) {
+      return res.status(400).json({ error: "Either rows or url is required" });
+    }
+
+    if (expected_signer && !ethers.isAddress(expected_signer)) {
+      return res.status(400).json({ error: "Invalid expected_signer address" });
+    }
+
+    let dataset: any[] = rows;
+    let contentHash: string | null = null;
+    if (!Array.isArray(rows)) {
+      const parsed = await read_dataset(url);
+      contentHash = parsed.content_hash;
+      if (parsed.single) {
+        return res.status(400).json({ error: "Dataset at url is not an array of rows" });
+      }
+      dataset = parsed.rows;
+    }
+
+    const results = dataset.map((row: any, index: number) => ({
+      index,
+      verification_status: row?.verification_status ?? null,
+      ...verifyRowSignature(row || {}, expected_signer),
+    }));
+
+    let manifest = null;
+    if (metadata_url) {
+      const metadata: any = JSON.parse((await fetchObject(metadata_url)).data.toString("utf-8"));
+      if (!metadata.manifest) {
+        manifest = { valid: false, signer: null, error: "Metadata has no manifest" };
+      } else {
+        const check = verifyManifest(metadata.manifest, metadata.manifest_signature);
+        const hashMatches =
+          contentHash === null || contentHash === metadata.manifest.content_hash;
+        manifest = {
+          ...check,
+          valid: check.valid && hashMatches,
+          content_hash: metadata.manifest.content_hash,
+          content_hash_matches: contentHash === null ? null : hashMatches,
+          ...(check.valid && !hashMatches
+            ? { error: "Content hash does not match the signed manifest" }
+            : {}),
+        };
+      }
+    }
+
+    const signers = Array.from(
+      new Set(results.filter((r) => r.valid).map((r) => r.signer))
+    );
+
+    res.json({
+      success: true,
+      server_signer: getSignerAddress(),
+      total_rows: results.length,
+      valid_signatures: results.filter((r) => r.valid).length,
+      invalid_signatures: results.filter((r) => !r.valid && r.error !== "Missing signature").length,
+      unsigned_rows: results.filter((r) => r.error === "Missing signature").length,
+      signers,
+      content_hash: contentHash,
+      manifest,
+      rows: results,
+    });
+  } catch (error) {
+    if (error instanceof EncryptedDatasetError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Verify error:", error);
+    res.status(500).json({
+      error: "Verification failed",
+      details: (error as Error).message,
+    });
+  }
+});
+
 //Fetch data from huggingface
 app.post("/api/fetch-dataset", async (req: Request, res: Response) => {
-  const { sample_size = 5, dataset = "galileo-ai/medical_transcription_40" } = req.body;
-
+  let source: HfSource;
   try {
-    const response = await axios.get(
-      `https://datasets-server.huggingface.co/rows?dataset=${encodeURIComponent(dataset)}&config=default&split=train&offset=0&limit=${sample_size}`
-    );
+    source = parseHfSource({
+      dataset: "galileo-ai/medical_transcription_40",
+      label_column: "label",
+      ...req.body,
+    });
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
 
-    const rows = response.data.rows.map((row: any) => ({
-      id: row.id,
-      text: row.row.text,
-      label: row.row.label || null
+  try {
+    const page = await fetchHfRows(source);
+
+    const rows = page.rows.map(({ row_idx, row }) => ({
+      id: row_idx,
+      text: row[source.text_column] ?? null,
+      label: source.label_column
+        ? resolveHfLabel(row[source.label_column], page.label_names[source.label_column])
+        : null,
     }));
 
-    res.json({ samples: rows });
+    res.json({
+      samples: rows,
+      dataset: source.dataset,
+      config: source.config,
+      split: source.split,
+      offset: source.offset,
+      num_rows_total: page.num_rows_total,
+    });
   } catch (error) {
     console.error("Error fetching dataset from HuggingFace:", error);
     res.status(500).json({ error: "Failed to fetch dataset", details: (error as Error).message });
@@ -996,10 +3576,9 @@ app.post("/api/fetch-dataset", async (req: Request, res: Response) => {
 });
 
 // Combined generate + mint endpoint
-app.post("/api/generate-and-mint", async (req: Request, res: Response) => {
+app.post("/api/generate-and-mint", acceptSeedFile, async (req: Request, res: Response) => {
   try {
     const {
-      input_text,
       sample_size = 3,
       dataset_name = "Generated Dataset",
       description = "Synthetic dataset",
@@ -1011,60 +3590,107 @@ app.post("/api/generate-and-mint", async (req: Request, res: Response) => {
       output_format = "Structured JSON",
       source_dataset = "galileo-ai/medical_transcription_40",
       ai_model = "gemini-2.0-flash",
+      template_id,
+      output_schema,
     } = req.body;
 
-    if (!input_text) {
+    let seedInput: ReturnType<typeof read_generation_seeds>;
+    try {
+      seedInput = read_generation_seeds(req.body, req.file, sample_size);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    if (!seedInput) {
       return res.status(400).json({ error: "input_text is required" });
     }
+    const { seeds, variants_per_seed } = seedInput;
 
-    // Step 1: Generate data
-    console.log(`Generating ${sample_size} synthetic data samples...`);
-    const input_data = Array(sample_size).fill({ text: input_text });
-    const synthetic = await generate_synthetic_data(model, input_data);
-
-    if (synthetic.length === 0) {
-      throw new Error("Generation failed, no results.");
+    const requestError = checkGenerationRequest(req.body, ai_model);
+    if (requestError) {
+      return res.status(400).json({ error: requestError });
     }
 
-    // Step 2: Upload to Irys
-    console.log("Uploading to Irys...");
-    const contentUrl = await uploadToIrys(synthetic, [
-      { name: "Content-Type", value: "application/json" },
-      { name: "App-Name", value: "SagaSynth" },
-      { name: "Type", value: "Dataset" },
-    ]);
+    const input = redact_request_input(req.body, seeds.texts);
 
-    // Create content hash
-    const crypto = await import("crypto");
-    const contentHash =
-      "0x" +
-      crypto
-        .createHash("sha256")
-        .update(JSON.stringify(synthetic))
-        .digest("hex");
+    const injection = screenSeeds(input.texts, parseInjectionPolicy(req.body.injection_policy)!);
+    const rejection = injectionRejection(injection);
+    if (rejection) {
+      return res.status(400).json(rejection);
+    }
 
-    const metadata = {
-      name: dataset_name,
-      description: description,
-      content_url: contentUrl,
-      sample_size: synthetic.length,
-      tags: tags,
-      created_at: new Date().toISOString(),
-      input_text: input_text,
-      domain: domain,
-      visibility: visibility,
-      price_usdc: price_usdc,
-      max_tokens: max_tokens,
-      output_format: output_format,
-      source_dataset: source_dataset,
-      ai_model: ai_model,
+    const params: GenerationParams = {
+      input_text: describe_seed_input(seeds, input.texts),
+      sample_size: seedInput.sample_size,
+      seeds: input.texts,
+      variants_per_seed,
+      domain,
+      metadata: {
+        name: dataset_name,
+        description: description,
+        tags: tags,
+        input_text: describe_seed_input(seeds, input.texts),
+        seed_input: seedInputMetadata(seeds, variants_per_seed),
+        input_redaction: publicRedaction(input.redaction),
+        domain: domain,
+        visibility: visibility,
+        price_usdc: price_usdc,
+        max_tokens: max_tokens,
+        output_format: output_format,
+        source_dataset: source_dataset,
+        ai_model: ai_model,
+      },
+      content_tags: [
+        { name: "Content-Type", value: "application/json" },
+        { name: "App-Name", value: "SagaSynth" },
+        { name: "Type", value: "Dataset" },
+      ],
+      metadata_tags: [
+        { name: "Content-Type", value: "application/json" },
+        { name: "App-Name", value: "SagaSynth" },
+        { name: "Type", value: "Metadata" },
+      ],
+      history: {
+        tokenId: 0,
+        transactionHash: 'tx.hash',
+      },
+      ai_model,
+      template_id: resolvePromptTemplate(domain, template_id).id,
+      output_schema,
+      privacy_policy: req.body.privacy_policy,
+      dedup: parseDedupOptions(req.body.dedup),
+      judge: parseJudgeOptions(req.body.judge),
+      cache: parseCacheOptions(req.body.cache),
+      recipients: parseRecipients(req.body.recipients),
+      label_distribution: resolve_label_distribution(
+        req.body,
+        resolvePromptTemplate(domain, template_id)
+      ),
+      injection,
+      source_identifiers: input.identifiers,
+      export_format: parseOutputFormat(output_format)!,
+      max_output_tokens: Number(max_tokens) || undefined,
+      creator: req.body.creator,
+      generation: parseGenerationOptions(req.body),
     };
 
-    const metadataUrl = await uploadToIrys(metadata, [
-      { name: "Content-Type", value: "application/json" },
-      { name: "App-Name", value: "SagaSynth" },
-      { name: "Type", value: "Metadata" },
-    ]);
+    if (wants_event_stream(req)) {
+      const streamed = createJob("generate-and-mint", params, params.sample_size);
+      publishJobEvent(streamed.id, "job", {
+        job_id: streamed.id,
+        rows_total: params.sample_size,
+        redaction: input.redaction,
+        cancel_url: `/api/generate/jobs/${streamed.id}/cancel`,
+      });
+      run_generation_job(streamed.id).catch((error) => {
+        console.error(`[job ${streamed.id}] Unexpected job error:`, error);
+      });
+      return stream_job_events(req, res, streamed.id, true);
+    }
+
+    // Steps 1-2 and 4: generate, upload to Irys and save to history
+    const job = await run_generation_job_sync(
+      createJob("generate-and-mint", params, params.sample_size)
+    );
 
     // // Step 3: Mint NFT automatically
     // console.log("Minting NFT...");
@@ -1086,29 +3712,23 @@ app.post("/api/generate-and-mint", async (req: Request, res: Response) => {
     // );
     // const tokenId = event ? event.args[0].toString() : null;
 
-    // Step 4: Save to history
-    const history = JSON.parse(fs.readFileSync(HISTORY_FILE, "utf-8"));
-    history.push({
-      input_text,
-      data: synthetic,
-      metadata: metadata,
-      created_at: new Date().toISOString(),
-      content_url: contentUrl,
-      metadata_url: metadataUrl,
-      tokenId: 0,
-      transactionHash: 'tx.hash',
-    });
-    fs.writeFileSync(HISTORY_FILE, JSON.stringify(history));
-
     res.json({
       success: true,
       message: "Dataset generated and NFT minted successfully",
-      data: synthetic,
-      metadata: metadata,
-      irys_links: {
-        content_url: contentUrl,
-        metadata_url: metadataUrl,
-      }
+      job_id: job.id,
+      redaction: input.redaction,
+      data: job.result.data,
+      failures: job.result.failures,
+      quarantined: job.result.quarantined,
+      privacy_report: job.result.privacy_report,
+      dedup_report: job.result.dedup_report,
+      judge_report: job.result.judge_report,
+      label_report: job.result.label_report,
+      injection_report: job.result.injection_report,
+      cache_report: job.result.cache_report,
+      cost: job.result.cost,
+      metadata: job.result.metadata,
+      irys_links: job.result.irys_links,
     });
   } catch (error) {
     console.error("Generate and mint error:", error);
@@ -1677,7 +4297,7 @@ app.post("/api/bounty/:bountyId/distribute", async (req: Request, res: Response)
   }
 });
 
-const PORT = 3001;
+const PORT = Number(process.env.PORT) || 3001;
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
 });
@@ -0,0 +1,83 @@
+import fs from "fs";
+import path from "path";
+
+// Per-run row checkpoints. Every generated (or permanently failed) row is
+// appended to checkpoints/<run_id>.jsonl as soon as it is produced, so a run
+// interrupted by a restart can be resumed without calling the model again
+// for rows it already has.
+
+export interface CheckpointEntry {
+  // 0 for the first pass, n for the n-th similarity regeneration round
+  round: number;
+  index: number;
+  row: any | null;
+  failure?: any;
+  usage?: any;
+}
+
+const CHECKPOINT_DIR = path.resolve(__dirname, "..", "checkpoints");
+
+const checkpointFile = (run_id: string) => {
+  // run ids are job UUIDs; anything else could escape the directory
+  if (!/^[0-9a-f-]{36}$/i.test(run_id)) {
+    throw new Error(`Invalid run id: ${run_id}`);
+  }
+  return path.join(CHECKPOINT_DIR, `${run_id}.jsonl`);
+};
+
+const entryKey = (round: number, index: number) => `${round}:${index}`;
+
+export const appendCheckpoint = (run_id: string, entry: CheckpointEntry) => {
+  if (!fs.existsSync(CHECKPOINT_DIR)) {
+    fs.mkdirSync(CHECKPOINT_DIR, { recursive: true });
+  }
+  fs.appendFileSync(checkpointFile(run_id), JSON.stringify(entry) + "\n");
+};
+
+// Entries keyed by round and row index. A line cut short by a crash is skipped.
+export const loadCheckpoint = (run_id: string) => {
+  const entries = new Map<string, CheckpointEntry>();
+  const file = checkpointFile(run_id);
+  if (!fs.existsSync(file)) {
+    return entries;
+  }
+  for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry: CheckpointEntry = JSON.parse(line);
+      entries.set(entryKey(entry.round, entry.index), entry);
+    } catch {
+      console.log(`Skipping truncated checkpoint line for run ${run_id}`);
+    }
+  }
+  return entries;
+};
+
+export const clearCheckpoint = (run_id: string) => {
+  const file = checkpointFile(run_id);
+  if (fs.existsSync(file)) {
+    fs.unlinkSync(file);
+  }
+};
+
+// Read/write view of one run's checkpoint for the generation loop. Rows that
+// failed on a retryable error (429, 5xx, timeouts) are left out, so a resumed
+// run asks the model for them again instead of keeping the failure.
+export const openCheckpoint = (run_id: string) => {
+  const entries = loadCheckpoint(run_id);
+  for (const [key, entry] of entries) {
+    if (entry.failure?.retryable) {
+      entries.delete(key);
+    }
+  }
+  return {
+    restored: entries.size,
+    get: (round: number, index: number) => entries.get(entryKey(round, index)),
+    put: (entry: CheckpointEntry) => {
+      entries.set(entryKey(entry.round, entry.index), entry);
+      appendCheckpoint(run_id, entry);
+    },
+  };
+};
+
+export type RunCheckpoint = ReturnType<typeof openCheckpoint>;
@@ -0,0 +1,146 @@
+import crypto from "crypto";
+import { ExportFormat, serializeDataset, DatasetInfo } from "./export-formats";
+
+// Large datasets are split into chunks of whole rows, each uploaded as its
+// own object in the dataset's format. A chunk manifest, uploaded last and
+// linked as the dataset's content_url, lists every chunk's id, row range and
+// SHA-256. The Merkle root over the chunk hashes is the dataset's
+// content_hash, so a reader can fetch only the chunks it needs and check
+// each one against the root.
+
+export const CHUNK_MANIFEST_TYPE = "sagasynth/chunked-dataset";
+
+// Target chunk size; datasets that serialize to more than this are chunked
+export const CHUNK_BYTES = Number(process.env.CHUNK_BYTES) || 1024 * 1024;
+
+export interface ChunkEntry {
+  index: number;
+  id: string;
+  url: string;
+  // Rows [row_start, row_end) of the dataset
+  row_start: number;
+  row_end: number;
+  bytes: number;
+  // Hash of the uploaded bytes (ciphertext for private datasets)
+  sha256: string;
+  // Private datasets: the IV the chunk was encrypted with
+  iv?: string;
+}
+
+export interface ChunkManifest {
+  type: typeof CHUNK_MANIFEST_TYPE;
+  version: 1;
+  format: ExportFormat;
+  // Content-Type of each chunk once decrypted
+  content_type: string;
+  row_count: number;
+  chunk_bytes: number;
+  encrypted: boolean;
+  merkle_root: string;
+  chunks: ChunkEntry[];
+}
+
+const sha256 = (data: Buffer) => crypto.createHash("sha256").update(data).digest();
+
+// Binary Merkle tree over chunk hashes. Leaves hash 0x00 || chunk hash and
+// inner nodes 0x01 || left || right. Without the leaf prefix, a one-chunk
+// dataset whose bytes are 0x01 || left || right would have the same root as
+// the two-chunk dataset under that node. An odd node moves up as-is.
+export const merkleRoot = (hashes: string[]) => {
+  if (hashes.length === 0) {
+    return "0x" + sha256(Buffer.alloc(0)).toString("hex");
+  }
+  let level = hashes.map((hash) =>
+    sha256(Buffer.concat([Buffer.from([0]), Buffer.from(hash.replace(/^0x/, ""), "hex")]))
+  );
+  while (level.length > 1) {
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(
+        i + 1 < level.length
+          ? sha256(Buffer.concat([Buffer.from([1]), level[i], level[i + 1]]))
+          : level[i]
+      );
+    }
+    level = next;
+  }
+  return "0x" + level[0].toString("hex");
+};
+
+// HF bundles are one tar archive and are never chunked
+export const shouldChunk = (format: ExportFormat, bytes: number) =>
+  format !== "hf" && bytes > CHUNK_BYTES;
+
+// Splits rows into runs whose serialized size stays near CHUNK_BYTES. A row
+// larger than that gets a chunk of its own.
+export const splitIntoChunks = (
+  rows: Record<string, any>[],
+  format: ExportFormat,
+  info: DatasetInfo,
+  chunk_bytes = CHUNK_BYTES
+) => {
+  const chunks: { row_start: number; row_end: number; body: Buffer }[] = [];
+  let start = 0;
+  let size = 0;
+  const close = (end: number) => {
+    chunks.push({
+      row_start: start,
+      row_end: end,
+      body: serializeDataset(rows.slice(start, end), format, info).body,
+    });
+    start = end;
+    size = 0;
+  };
+  rows.forEach((row, i) => {
+    const row_bytes = Buffer.byteLength(JSON.stringify(row)) + 1;
+    if (i > start && size + row_bytes > chunk_bytes) {
+      close(i);
+    }
+    size += row_bytes;
+  });
+  if (start < rows.length || chunks.length === 0) {
+    close(rows.length);
+  }
+  return chunks;
+};
+
+export const chunkHash = (data: Buffer) => "0x" + sha256(data).toString("hex");
+
+// The manifest when the bytes are one, else null. Plain datasets are JSON
+// arrays, JSON Lines, CSV or tar, so only a JSON object needs a closer look.
+export const readChunkManifest = (data: Buffer): ChunkManifest | null => {
+  if (data[0] !== 0x7b) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(data.toString("utf-8"));
+    return parsed?.type === CHUNK_MANIFEST_TYPE && Array.isArray(parsed.chunks) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Checks that the chunk list hashes to the manifest's root, and to
+// expected_root (e.g. the content_hash minted on-chain) when given. Throws
+// on mismatch.
+export const verifyChunkManifest = (manifest: ChunkManifest, expected_root?: string | null) => {
+  const root = merkleRoot(manifest.chunks.map((chunk) => chunk.sha256));
+  if (root !== manifest.merkle_root) {
+    throw new Error(`Chunk hashes give root ${root}, the manifest says ${manifest.merkle_root}`);
+  }
+  if (expected_root && expected_root.toLowerCase() !== root) {
+    throw new Error(`Merkle root ${root} does not match the expected ${expected_root}`);
+  }
+};
+
+// Throws when a fetched chunk is not the one the manifest lists
+export const verifyChunk = (entry: ChunkEntry, data: Buffer) => {
+  const hash = chunkHash(data);
+  if (hash !== entry.sha256) {
+    throw new Error(`Chunk ${entry.index} hashes to ${hash}, expected ${entry.sha256}`);
+  }
+};
+
+// Chunks holding any of rows [offset, offset + limit)
+export const chunksForRange = (manifest: ChunkManifest, offset: number, limit: number) =>
+  manifest.chunks.filter((chunk) => chunk.row_end > offset && chunk.row_start < offset + limit);
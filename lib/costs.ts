@@ -0,0 +1,123 @@
+import { TokenUsage } from "./providers";
+
+// Cost accounting for generation runs: LLM tokens summed over every provider
+// call (retries and regenerated rows included) plus Irys upload prices in wei.
+
+export interface UsageTotals {
+  calls: number;
+  prompt_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+}
+
+export const emptyUsage = (): UsageTotals => ({
+  calls: 0,
+  prompt_tokens: 0,
+  output_tokens: 0,
+  total_tokens: 0,
+});
+
+export const addUsage = (totals: UsageTotals, usage?: TokenUsage) => {
+  totals.calls++;
+  if (usage) {
+    totals.prompt_tokens += usage.prompt_tokens;
+    totals.output_tokens += usage.output_tokens;
+    totals.total_tokens += usage.total_tokens;
+  }
+  return totals;
+};
+
+export const mergeUsage = (totals: UsageTotals, other?: UsageTotals) => {
+  if (other) {
+    totals.calls += other.calls;
+    totals.prompt_tokens += other.prompt_tokens;
+    totals.output_tokens += other.output_tokens;
+    totals.total_tokens += other.total_tokens;
+  }
+  return totals;
+};
+
+// What one Irys upload cost. Wei amounts are decimal strings.
+export interface IrysUploadCost {
+  bytes: number;
+  price_wei: string;
+  // Amount sent to the Irys node before the upload; "0" when the balance covered it
+  funded_wei: string;
+}
+
+export interface CostBreakdown {
+  llm: UsageTotals & {
+    model: string;
+    max_output_tokens: number;
+  };
+  irys: {
+    content: IrysUploadCost | null;
+    // Absent in the published metadata, which can't contain its own price
+    metadata?: IrysUploadCost | null;
+    total_price_wei: string;
+    total_funded_wei: string;
+  };
+}
+
+const sumWei = (values: (string | undefined)[]) =>
+  values.reduce((sum, value) => sum + BigInt(value || "0"), BigInt(0)).toString();
+
+// One cost for an upload made of several objects (chunks and their manifest)
+export const sumUploadCosts = (costs: IrysUploadCost[]): IrysUploadCost => ({
+  bytes: costs.reduce((sum, cost) => sum + cost.bytes, 0),
+  price_wei: sumWei(costs.map((cost) => cost.price_wei)),
+  funded_wei: sumWei(costs.map((cost) => cost.funded_wei)),
+});
+
+export const buildCostBreakdown = (
+  model: string,
+  max_output_tokens: number,
+  usage: UsageTotals,
+  content: IrysUploadCost | null,
+  metadata?: IrysUploadCost | null
+): CostBreakdown => {
+  const uploads = metadata === undefined ? [content] : [content, metadata];
+  return {
+    llm: { model, max_output_tokens, ...usage },
+    irys: {
+      content,
+      ...(metadata === undefined ? {} : { metadata }),
+      total_price_wei: sumWei(uploads.map((upload) => upload?.price_wei)),
+      total_funded_wei: sumWei(uploads.map((upload) => upload?.funded_wei)),
+    },
+  };
+};
+
+export interface CreatorCostTotals {
+  creator: string;
+  runs: number;
+  llm: UsageTotals;
+  irys_price_wei: string;
+  irys_funded_wei: string;
+}
+
+// Sums the cost of every history record created for `creator`
+export const sumCreatorCosts = (history: any[], creator: string): CreatorCostTotals => {
+  const records = history.filter(
+    (record) =>
+      typeof record?.creator === "string" &&
+      record.creator.toLowerCase() === creator.toLowerCase() &&
+      record.cost
+  );
+
+  const llm = emptyUsage();
+  for (const record of records) {
+    llm.calls += record.cost.llm?.calls || 0;
+    llm.prompt_tokens += record.cost.llm?.prompt_tokens || 0;
+    llm.output_tokens += record.cost.llm?.output_tokens || 0;
+    llm.total_tokens += record.cost.llm?.total_tokens || 0;
+  }
+
+  return {
+    creator,
+    runs: records.length,
+    llm,
+    irys_price_wei: sumWei(records.map((record) => record.cost.irys?.total_price_wei)),
+    irys_funded_wei: sumWei(records.map((record) => record.cost.irys?.total_funded_wei)),
+  };
+};
@@ -0,0 +1,251 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { sha256Hex } from "./signing";
+
+// Encryption of private datasets. The serialized dataset is sealed with a
+// fresh AES-256-GCM data key before upload, and the data key is wrapped once
+// per authorized party:
+//   - for the gateway, with the server's key-encryption key (KEK), so the key
+//     release endpoint can hand it to the NFT owner later. The wrap is bound
+//     to the dataset's id, so it can't be lifted into other metadata.
+//   - for each recipient named at publish time, with ECIES over their
+//     secp256k1 public key, so they can decrypt without asking the server
+// The parameters and wrapped keys are public; they go into the metadata.
+
+export const DATASET_CIPHER = "AES-256-GCM";
+export const RECIPIENT_WRAP_SCHEME = "ECIES-secp256k1-HKDF-SHA256-AES-256-GCM";
+
+// Content-Type of encrypted uploads; the plaintext type is in the metadata
+export const ENCRYPTED_CONTENT_TYPE = "application/octet-stream";
+
+export class EncryptedDatasetError extends Error {
+  constructor() {
+    super("Dataset is encrypted; its key is released through /api/keys/release");
+    this.name = "EncryptedDatasetError";
+  }
+}
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const HKDF_INFO = "sagasynth-dataset-key";
+
+export interface Recipient {
+  address: string;
+  // Uncompressed secp256k1 public key, 0x-prefixed hex
+  public_key: string;
+}
+
+export interface WrappedKey {
+  // "gateway", or the recipient's address
+  party: string;
+  scheme: string;
+  iv: string;
+  // Wrapped data key followed by its GCM tag, base64
+  wrapped_key: string;
+  // Gateway wraps: fingerprint of the KEK that wrapped the key
+  kek_id?: string;
+  // Recipient wraps
+  public_key?: string;
+  ephemeral_public_key?: string;
+}
+
+// Public description of an encrypted upload, stored in the metadata
+export interface DatasetEncryption {
+  // Random id the gateway wrap is bound to; names the server's record of
+  // the dataset
+  dataset_id: string;
+  cipher: string;
+  // Absent for chunked datasets, whose chunk manifest lists each chunk's IV
+  iv?: string;
+  // The GCM tag is appended to the ciphertext
+  tag_bytes: number;
+  // What the decrypted bytes are
+  plaintext_content_type: string;
+  plaintext_format: string;
+  wrapped_keys: WrappedKey[];
+}
+
+const KEK_FILE = path.resolve(__dirname, "..", "dataset-kek.key");
+
+let kek: Buffer | null = null;
+
+// DATASET_KEK (64 hex chars) when set; otherwise a key generated on first
+// use and kept in dataset-kek.key. Losing it makes gateway-wrapped keys
+// unrecoverable.
+const getKek = () => {
+  if (kek) {
+    return kek;
+  }
+  const configured =
+    process.env.DATASET_KEK ||
+    (fs.existsSync(KEK_FILE) ? fs.readFileSync(KEK_FILE, "utf-8").trim() : "");
+  if (configured) {
+    if (!/^[0-9a-fA-F]{64}$/.test(configured)) {
+      throw new Error("DATASET_KEK must be 32 bytes of hex");
+    }
+    kek = Buffer.from(configured, "hex");
+  } else {
+    kek = crypto.randomBytes(32);
+    fs.writeFileSync(KEK_FILE, kek.toString("hex"), { mode: 0o600 });
+  }
+  return kek;
+};
+
+const kekId = (key: Buffer) => sha256Hex(key).slice(0, 16);
+
+// Additional data of the gateway wrap
+const gatewayAad = (kek_id: string, dataset_id: string) => `${kek_id}:${dataset_id}`;
+
+const seal = (key: Buffer, plaintext: Buffer, aad?: string) => {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  if (aad) cipher.setAAD(Buffer.from(aad));
+  const sealed = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  return { iv, sealed };
+};
+
+// Throws when the key is wrong or the data was altered
+const open = (key: Buffer, iv: Buffer, sealed: Buffer, aad?: string) => {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  if (aad) decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_BYTES));
+  return Buffer.concat([
+    decipher.update(sealed.subarray(0, sealed.length - TAG_BYTES)),
+    decipher.final(),
+  ]);
+};
+
+const recipientKey = (shared: Buffer, ephemeral_public_key: Buffer) =>
+  Buffer.from(crypto.hkdfSync("sha256", shared, ephemeral_public_key, HKDF_INFO, 32));
+
+const wrapForRecipient = (data_key: Buffer, recipient: Recipient): WrappedKey => {
+  const ephemeral = crypto.createECDH("secp256k1");
+  ephemeral.generateKeys();
+  const ephemeral_public_key = ephemeral.getPublicKey();
+  const shared = ephemeral.computeSecret(Buffer.from(recipient.public_key.slice(2), "hex"));
+  const { iv, sealed } = seal(recipientKey(shared, ephemeral_public_key), data_key);
+  return {
+    party: recipient.address,
+    scheme: RECIPIENT_WRAP_SCHEME,
+    iv: iv.toString("base64"),
+    wrapped_key: sealed.toString("base64"),
+    public_key: recipient.public_key,
+    ephemeral_public_key: "0x" + ephemeral_public_key.toString("hex"),
+  };
+};
+
+// The data key from a recipient wrap, given the recipient's private key
+export const unwrapForRecipient = (wrapped: WrappedKey, private_key: string) => {
+  const ecdh = crypto.createECDH("secp256k1");
+  ecdh.setPrivateKey(Buffer.from(private_key.replace(/^0x/, ""), "hex"));
+  const ephemeral_public_key = Buffer.from(wrapped.ephemeral_public_key!.slice(2), "hex");
+  return open(
+    recipientKey(ecdh.computeSecret(ephemeral_public_key), ephemeral_public_key),
+    Buffer.from(wrapped.iv, "base64"),
+    Buffer.from(wrapped.wrapped_key, "base64")
+  );
+};
+
+// The data key from the gateway wrap; throws if it was wrapped with another
+// KEK or for another dataset id
+export const unwrapGatewayKey = (encryption: DatasetEncryption) => {
+  const wrapped = encryption.wrapped_keys.find((key) => key.party === "gateway");
+  if (!wrapped) {
+    throw new Error("Dataset has no gateway-wrapped key");
+  }
+  const key = getKek();
+  if (wrapped.kek_id !== kekId(key)) {
+    throw new Error(`Dataset key was wrapped with KEK ${wrapped.kek_id}, not this server's`);
+  }
+  return open(
+    key,
+    Buffer.from(wrapped.iv, "base64"),
+    Buffer.from(wrapped.wrapped_key, "base64"),
+    gatewayAad(kekId(key), encryption.dataset_id)
+  );
+};
+
+// A fresh data key, wrapped for the gateway and each recipient. seal()
+// encrypts one payload (the dataset, or one of its chunks) under a new IV.
+export const createDatasetCipher = (
+  plaintext: { content_type: string; format: string },
+  recipients: Recipient[] = []
+) => {
+  const data_key = crypto.randomBytes(32);
+  const dataset_id = crypto.randomUUID();
+  const key = getKek();
+  const gateway = seal(key, data_key, gatewayAad(kekId(key), dataset_id));
+
+  const encryption: DatasetEncryption = {
+    dataset_id,
+    cipher: DATASET_CIPHER,
+    tag_bytes: TAG_BYTES,
+    plaintext_content_type: plaintext.content_type,
+    plaintext_format: plaintext.format,
+    wrapped_keys: [
+      {
+        party: "gateway",
+        scheme: DATASET_CIPHER,
+        kek_id: kekId(key),
+        iv: gateway.iv.toString("base64"),
+        wrapped_key: gateway.sealed.toString("base64"),
+      },
+      ...recipients.map((recipient) => wrapForRecipient(data_key, recipient)),
+    ],
+  };
+  return {
+    encryption,
+    seal: (body: Buffer) => {
+      const { iv, sealed } = seal(data_key, body);
+      return { ciphertext: sealed, iv: iv.toString("base64") };
+    },
+  };
+};
+
+export const encryptDataset = (
+  body: Buffer,
+  plaintext: { content_type: string; format: string },
+  recipients: Recipient[] = []
+) => {
+  const cipher = createDatasetCipher(plaintext, recipients);
+  const { ciphertext, iv } = cipher.seal(body);
+  return { ciphertext, encryption: { ...cipher.encryption, iv } };
+};
+
+// iv defaults to the dataset's; chunks pass their own
+export const decryptDataset = (
+  ciphertext: Buffer,
+  encryption: DatasetEncryption,
+  data_key: Buffer,
+  iv = encryption.iv
+) => {
+  if (!iv) {
+    throw new Error("No IV for this payload");
+  }
+  return open(data_key, Buffer.from(iv, "base64"), ciphertext);
+};
+
+export const isPrivateVisibility = (visibility: any) =>
+  typeof visibility === "string" && visibility.trim().toLowerCase() === "private";
+
+// Reads the request's `recipients`: a list of secp256k1 public keys (hex, or
+// { public_key }). Throws on invalid values.
+export const parseRecipients = (value: any): Recipient[] => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.length > 20) {
+    throw new Error("recipients must be a list of up to 20 public keys");
+  }
+  return value.map((entry) => {
+    const key = typeof entry === "string" ? entry : entry?.public_key;
+    try {
+      const public_key = ethers.SigningKey.computePublicKey(key, false);
+      return { address: ethers.computeAddress(public_key), public_key };
+    } catch {
+      throw new Error(`recipients: ${JSON.stringify(key)} is not a secp256k1 public key`);
+    }
+  });
+};
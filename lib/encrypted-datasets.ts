@@ -0,0 +1,97 @@
+import fs from "fs";
+import path from "path";
+
+// Server-side record of every private dataset this server encrypted, keyed by
+// the dataset id its gateway-wrapped key is bound to. Key release decides who
+// is entitled from this record, never from the published metadata, which
+// anyone can copy and edit. Kept in encrypted-datasets.json.
+//
+// Tokens are bound when /api/nft/mint mints the dataset's content hash. That
+// mint comes from the server wallet, so the on-chain minter can't tell the
+// dataset's tokens apart from anyone else's; the recorded token ids can.
+
+export interface EncryptedDatasetRecord {
+  dataset_id: string;
+  // The signed manifest's content_hash: hash of the ciphertext, or the Merkle
+  // root of its chunks
+  content_hash: string;
+  content_url: string;
+  // Addresses the dataset was published for, lowercase
+  recipients: string[];
+  // Tokens this server minted with the content hash; their current owners
+  // are entitled
+  token_ids: string[];
+  created_at: string;
+}
+
+const RECORD_FILE = path.resolve(__dirname, "..", "encrypted-datasets.json");
+
+let records: Map<string, EncryptedDatasetRecord> | null = null;
+
+const loadRecords = () => {
+  if (records) {
+    return records;
+  }
+  records = new Map();
+  if (fs.existsSync(RECORD_FILE)) {
+    const stored: EncryptedDatasetRecord[] = JSON.parse(fs.readFileSync(RECORD_FILE, "utf-8"));
+    for (const record of stored) {
+      // Records written before tokens were bound have no token_ids
+      records.set(record.dataset_id, { ...record, token_ids: record.token_ids || [] });
+    }
+  }
+  return records;
+};
+
+const saveRecords = () => {
+  const tmp = `${RECORD_FILE}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(Array.from(loadRecords().values())));
+  fs.renameSync(tmp, RECORD_FILE);
+};
+
+export const recordEncryptedDataset = (
+  record: Omit<EncryptedDatasetRecord, "token_ids" | "created_at">
+) => {
+  const recorded: EncryptedDatasetRecord = {
+    ...record,
+    content_hash: record.content_hash.toLowerCase(),
+    recipients: record.recipients.map((address) => address.toLowerCase()),
+    token_ids: [],
+    created_at: new Date().toISOString(),
+  };
+  loadRecords().set(recorded.dataset_id, recorded);
+  saveRecords();
+  return recorded;
+};
+
+export const findEncryptedDataset = (dataset_id: string | undefined) =>
+  (dataset_id && loadRecords().get(dataset_id)) || null;
+
+// Binds a freshly minted token to every recorded dataset with its content
+// hash. Returns the ids of those datasets.
+export const bindEncryptedDatasetToken = (content_hash: string, token_id: string) => {
+  const bound: string[] = [];
+  for (const record of loadRecords().values()) {
+    if (record.content_hash === content_hash.toLowerCase() && !record.token_ids.includes(token_id)) {
+      record.token_ids.push(token_id);
+      bound.push(record.dataset_id);
+    }
+  }
+  if (bound.length > 0) {
+    saveRecords();
+  }
+  return bound;
+};
+
+// Lowercase addresses that may receive the dataset's key: its recipients and,
+// when the key is asked for through a token bound to it, that token's owner
+export const entitledAddresses = (
+  record: EncryptedDatasetRecord,
+  token?: { token_id: string; owner: string }
+) => {
+  const entitled = [...record.recipients];
+  if (token && record.token_ids.includes(token.token_id)) {
+    entitled.push(token.owner.toLowerCase());
+  }
+  return entitled;
+};
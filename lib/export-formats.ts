@@ -0,0 +1,302 @@
+import parseCsv from "csv-parse/lib/sync";
+import { writeTar, readTar, isTar } from "./tar";
+
+// Serializers for the dataset payload uploaded to Irys, selected by the
+// request's output_format, and the matching parser used to read any of them
+// back (preview, verify, quality).
+
+export type ExportFormat = "json" | "jsonl" | "csv" | "hf";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["json", "jsonl", "csv", "hf"];
+
+export const FORMAT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json",
+  jsonl: "application/x-ndjson",
+  csv: "text/csv",
+  hf: "application/x-tar",
+};
+
+const FORMAT_ALIASES: Record<string, ExportFormat> = {
+  json: "json",
+  structuredjson: "json",
+  jsonarray: "json",
+  jsonl: "jsonl",
+  jsonlines: "jsonl",
+  ndjson: "jsonl",
+  csv: "csv",
+  hf: "hf",
+  huggingface: "hf",
+  huggingfacebundle: "hf",
+  hfbundle: "hf",
+  tar: "hf",
+};
+
+// Accepts the display names the frontend sends ("Structured JSON", "CSV", ...)
+export const parseOutputFormat = (value: any): ExportFormat | null => {
+  if (value === undefined || value === null || value === "") {
+    return "json";
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  return FORMAT_ALIASES[value.toLowerCase().replace(/[^a-z]/g, "")] || null;
+};
+
+export interface DatasetInfo {
+  name: string;
+  description?: string;
+  domain?: string;
+}
+
+export interface SerializedDataset {
+  format: ExportFormat;
+  content_type: string;
+  file_name: string;
+  body: Buffer;
+}
+
+// --- JSONL ---
+
+const toJsonl = (rows: any[]) => rows.map((row) => JSON.stringify(row)).join("\n") + "\n";
+
+const fromJsonl = (content: string) =>
+  content
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line));
+
+// --- CSV ---
+
+// Cells are typed so a row reads back exactly as it was signed. A string is
+// written as-is unless that text would parse as JSON ("42", "true", "[1]",
+// ""); every other value, and those strings, are written as JSON. So 42 is
+// `42` and the string "42" is `"42"`. An empty cell means the key is absent.
+const encodeCell = (value: any) => {
+  if (typeof value === "string" && value !== "") {
+    try {
+      JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return JSON.stringify(value);
+};
+
+const decodeCell = (cell: string) => {
+  try {
+    return JSON.parse(cell);
+  } catch {
+    return cell;
+  }
+};
+
+// Flattens synthetic_output into "synthetic_output.<key>" columns. Objects
+// that are empty or have a key containing "." stay whole in one JSON cell, as
+// do arrays and every other nested value, so the columns split back unambiguously.
+const flattenRow = (row: Record<string, any>) => {
+  const flat: Record<string, string> = {};
+  const flattenOutput = (value: any, prefix: string) => {
+    const entries =
+      value && typeof value === "object" && !Array.isArray(value) ? Object.entries(value) : [];
+    if (entries.length > 0 && entries.every(([key]) => !key.includes("."))) {
+      for (const [key, child] of entries) {
+        flattenOutput(child, `${prefix}.${key}`);
+      }
+    } else if (value !== undefined) {
+      flat[prefix] = encodeCell(value);
+    }
+  };
+
+  for (const [key, value] of Object.entries(row)) {
+    if (key === "synthetic_output") {
+      flattenOutput(value, key);
+    } else if (value !== undefined) {
+      flat[key] = encodeCell(value);
+    }
+  }
+  return flat;
+};
+
+const csvCell = (value: any) => {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: Record<string, any>[]) => {
+  const flatRows = rows.map(flattenRow);
+  const columns: string[] = [];
+  for (const flat of flatRows) {
+    for (const key of Object.keys(flat)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  const lines = [columns.map(csvCell).join(",")];
+  for (const flat of flatRows) {
+    lines.push(columns.map((column) => csvCell(flat[column])).join(","));
+  }
+  return lines.join("\n") + "\n";
+};
+
+// Reverses flattenRow: synthetic_output.* columns become nested objects and
+// typed cells are decoded. Exports made before cells were typed read back with
+// numeric-looking strings as numbers.
+const fromCsv = (content: string) => {
+  const records: Record<string, string>[] = parseCsv(content, {
+    columns: true,
+    bom: true,
+    skip_empty_lines: true,
+  });
+  return records.map((record) => {
+    const row: Record<string, any> = {};
+    for (const [column, cell] of Object.entries(record)) {
+      if (cell === "") continue;
+      const value = decodeCell(cell);
+
+      const path = column.startsWith("synthetic_output.") ? column.split(".") : [column];
+      let target = row;
+      for (const key of path.slice(0, -1)) {
+        target[key] = target[key] && typeof target[key] === "object" ? target[key] : {};
+        target = target[key];
+      }
+      target[path[path.length - 1]] = value;
+    }
+    return row;
+  });
+};
+
+// --- Hugging Face bundle ---
+
+const featureOf = (value: any): any => {
+  if (typeof value === "string" || value === null || value === undefined) {
+    return { dtype: "string", _type: "Value" };
+  }
+  if (typeof value === "boolean") {
+    return { dtype: "bool", _type: "Value" };
+  }
+  if (typeof value === "number") {
+    return { dtype: Number.isInteger(value) ? "int64" : "float64", _type: "Value" };
+  }
+  if (Array.isArray(value)) {
+    return { feature: featureOf(value[0]), _type: "Sequence" };
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, featureOf(child)]));
+};
+
+const HF_DATA_FILE = "data/train.jsonl";
+
+const datasetCard = (info: DatasetInfo, rows: Record<string, any>[]) => `---
+pretty_name: ${JSON.stringify(info.name)}
+tags:
+- synthetic
+${info.domain ? `- ${JSON.stringify(info.domain)}\n` : ""}configs:
+- config_name: default
+  data_files:
+  - split: train
+    path: ${HF_DATA_FILE}
+---
+
+# ${info.name}
+
+${info.description || ""}
+
+Synthetic dataset generated by SagaSynth. ${rows.length} rows in \`${HF_DATA_FILE}\`.
+Each row holds the \`original_text\` it was generated from, the model's
+\`synthetic_output\`, its \`verification_status\` and an EIP-191 \`signature\`.
+`;
+
+const toHfBundle = (rows: Record<string, any>[], info: DatasetInfo) =>
+  writeTar([
+    { name: "README.md", content: datasetCard(info, rows) },
+    {
+      name: "dataset_info.json",
+      content: JSON.stringify(
+        {
+          dataset_name: info.name,
+          description: info.description || "",
+          domain: info.domain || null,
+          features: rows.length > 0 ? featureOf(rows[0]) : {},
+          splits: { train: { name: "train", num_examples: rows.length } },
+        },
+        null,
+        2
+      ),
+    },
+    { name: HF_DATA_FILE, content: toJsonl(rows) },
+  ]);
+
+export const serializeDataset = (
+  rows: Record<string, any>[],
+  format: ExportFormat,
+  info: DatasetInfo
+): SerializedDataset => {
+  const body =
+    format === "jsonl"
+      ? Buffer.from(toJsonl(rows))
+      : format === "csv"
+        ? Buffer.from(toCsv(rows))
+        : format === "hf"
+          ? toHfBundle(rows, info)
+          : Buffer.from(JSON.stringify(rows));
+  const extension = format === "hf" ? "tar" : format;
+  return {
+    format,
+    content_type: FORMAT_CONTENT_TYPES[format],
+    file_name: `dataset.${extension}`,
+    body,
+  };
+};
+
+// Detects the format from the Content-Type when known, otherwise from the bytes
+export const detectFormat = (data: Buffer, content_type?: string | null): ExportFormat => {
+  const type = (content_type || "").split(";")[0].trim().toLowerCase();
+  const byType = (Object.keys(FORMAT_CONTENT_TYPES) as ExportFormat[]).find(
+    (format) => FORMAT_CONTENT_TYPES[format] === type
+  );
+  if (byType) return byType;
+  if (isTar(data)) return "hf";
+
+  const text = data.toString("utf-8").trimStart();
+  if (text.startsWith("[")) return "json";
+  if (text.startsWith("{")) {
+    try {
+      JSON.parse(text);
+      return "json";
+    } catch {
+      return "jsonl";
+    }
+  }
+  return "csv";
+};
+
+// Rows of a dataset in any exported format. A plain JSON object (not an
+// array) comes back as a single row with `single` set.
+export const parseDataset = (data: Buffer, content_type?: string | null) => {
+  const format = detectFormat(data, content_type);
+  let rows: any[];
+  if (format === "hf") {
+    const entries = readTar(data);
+    const dataFile = entries.find((entry) => entry.name === HF_DATA_FILE);
+    if (!dataFile) {
+      throw new Error(`Bundle has no ${HF_DATA_FILE}`);
+    }
+    rows = fromJsonl(dataFile.content.toString("utf-8"));
+    return { format, rows, files: entries.map((entry) => entry.name) };
+  }
+
+  const text = data.toString("utf-8");
+  if (format === "jsonl") {
+    rows = fromJsonl(text);
+  } else if (format === "csv") {
+    rows = fromCsv(text);
+  } else {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) {
+      return { format, rows: [parsed], single: true };
+    }
+    rows = parsed;
+  }
+  return { format, rows };
+};
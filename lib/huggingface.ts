@@ -0,0 +1,168 @@
+import axios from "axios";
+
+// Rows from the Hugging Face datasets-server API, used as seed records for
+// dataset augmentation. The API returns at most 100 rows per request, so
+// larger ranges are fetched page by page.
+
+export const HF_DATASETS_SERVER =
+  process.env.HF_DATASETS_SERVER_URL || "https://datasets-server.huggingface.co";
+
+const PAGE_SIZE = 100;
+const REQUEST_TIMEOUT_MS = 30000;
+export const MAX_HF_ROWS = Number(process.env.MAX_HF_ROWS) || 5000;
+
+export interface HfSource {
+  dataset: string;
+  config: string;
+  split: string;
+  offset: number;
+  // Number of rows to read starting at offset
+  limit: number;
+  text_column: string;
+  label_column?: string;
+}
+
+export interface HfRow {
+  row_idx: number;
+  row: Record<string, any>;
+}
+
+export interface HfPage {
+  rows: HfRow[];
+  // ClassLabel names per column, for datasets that store labels as integers
+  label_names: Record<string, string[]>;
+  num_rows_total: number | null;
+}
+
+// Reads dataset/config/split/offset/limit and the column mapping from a
+// request body. Throws on invalid values.
+export const parseHfSource = (body: any, default_limit = 5): HfSource => {
+  const dataset = body.dataset;
+  if (typeof dataset !== "string" || !/^[\w.-]+(\/[\w.-]+)?$/.test(dataset)) {
+    throw new Error('dataset must be a Hugging Face dataset id such as "owner/name"');
+  }
+  const offset = Number(body.offset ?? 0);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error("offset must be a non-negative integer");
+  }
+  const limit = Number(body.limit ?? body.sample_size ?? default_limit);
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_HF_ROWS) {
+    throw new Error(`limit must be an integer between 1 and ${MAX_HF_ROWS}`);
+  }
+  for (const field of ["config", "split", "text_column", "label_column"]) {
+    if (body[field] !== undefined && (typeof body[field] !== "string" || body[field] === "")) {
+      throw new Error(`${field} must be a non-empty string`);
+    }
+  }
+  return {
+    dataset,
+    config: body.config || "default",
+    split: body.split || "train",
+    offset,
+    limit,
+    text_column: body.text_column || "text",
+    ...(body.label_column ? { label_column: body.label_column } : {}),
+  };
+};
+
+const labelNamesOf = (features: any[] = []) => {
+  const names: Record<string, string[]> = {};
+  for (const feature of features) {
+    if (feature?.type?._type === "ClassLabel" && Array.isArray(feature.type.names)) {
+      names[feature.name] = feature.type.names;
+    }
+  }
+  return names;
+};
+
+export const fetchHfPage = async (
+  source: Pick<HfSource, "dataset" | "config" | "split">,
+  offset: number,
+  length: number
+): Promise<HfPage> => {
+  const response = await axios.get(`${HF_DATASETS_SERVER}/rows`, {
+    params: {
+      dataset: source.dataset,
+      config: source.config,
+      split: source.split,
+      offset,
+      length: Math.min(length, PAGE_SIZE),
+    },
+    headers: process.env.HF_TOKEN ? { Authorization: `Bearer ${process.env.HF_TOKEN}` } : {},
+    timeout: REQUEST_TIMEOUT_MS,
+  });
+  return {
+    rows: response.data.rows || [],
+    label_names: labelNamesOf(response.data.features),
+    num_rows_total: response.data.num_rows_total ?? null,
+  };
+};
+
+// Every row in [offset, offset + limit), stopping early at the end of the split
+export const fetchHfRows = async (
+  source: HfSource,
+  on_page?: (fetched: number, page: HfPage) => void
+): Promise<HfPage> => {
+  const rows: HfRow[] = [];
+  let label_names: Record<string, string[]> = {};
+  let num_rows_total: number | null = null;
+
+  while (rows.length < source.limit) {
+    const page = await fetchHfPage(
+      source,
+      source.offset + rows.length,
+      source.limit - rows.length
+    );
+    rows.push(...page.rows);
+    label_names = { ...label_names, ...page.label_names };
+    num_rows_total = page.num_rows_total ?? num_rows_total;
+    on_page?.(rows.length, page);
+    if (page.rows.length === 0 || page.rows.length < Math.min(PAGE_SIZE, source.limit)) {
+      break;
+    }
+  }
+  return { rows: rows.slice(0, source.limit), label_names, num_rows_total };
+};
+
+// Label value as text, resolving ClassLabel integers to their names
+export const resolveHfLabel = (value: any, names?: string[]) => {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (names && Number.isInteger(value) && names[value] !== undefined) {
+    return names[value];
+  }
+  return String(value);
+};
+
+export interface HfSeeds {
+  texts: string[];
+  // Original label per seed, when a label column was mapped
+  labels: (string | null)[];
+  // Dataset row index per seed
+  row_indexes: number[];
+  // Rows skipped because their text column was empty
+  skipped: number;
+}
+
+// Applies the column mapping; rows without text are skipped
+export const toHfSeeds = (source: HfSource, page: HfPage): HfSeeds => {
+  const seeds: HfSeeds = { texts: [], labels: [], row_indexes: [], skipped: 0 };
+  for (const { row_idx, row } of page.rows) {
+    const text = row[source.text_column];
+    if (typeof text !== "string" || text.trim() === "") {
+      seeds.skipped++;
+      continue;
+    }
+    seeds.texts.push(text);
+    seeds.labels.push(
+      source.label_column
+        ? resolveHfLabel(row[source.label_column], page.label_names[source.label_column])
+        : null
+    );
+    seeds.row_indexes.push(row_idx);
+  }
+  return seeds;
+};
+
+export const hfDatasetUrl = (dataset: string) => `https://huggingface.co/datasets/${dataset}`;
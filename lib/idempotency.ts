@@ -0,0 +1,133 @@
+import fs from "fs";
+import path from "path";
+import { canonicalJson, sha256Hex } from "./signing";
+
+// Stored responses for requests sent with an Idempotency-Key header. The
+// first request with a key runs and its response is kept; a retry with the
+// same key, method and path gets that response back instead of running again
+// (and minting or uploading again). Responses with a 5xx status are not kept,
+// so a failed request can be retried. Keys expire after a TTL and are kept in
+// idempotency-keys.json so retries after a restart still replay.
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+export const IDEMPOTENCY_TTL_SECONDS =
+  Number(process.env.IDEMPOTENCY_TTL_SECONDS) || 24 * 60 * 60;
+
+const MAX_KEY_LENGTH = 255;
+
+interface StoredResponse {
+  scope: string;
+  key: string;
+  // Hash of the request body, to catch a key reused for a different request
+  request_hash: string;
+  status: number;
+  body: any;
+  created_at: string;
+}
+
+export type IdempotencyLookup =
+  | { state: "new" }
+  | { state: "replay"; status: number; body: any }
+  // A request with this key is still running
+  | { state: "in_progress" }
+  // The key was used for a request with a different body
+  | { state: "mismatch" };
+
+const KEYS_FILE = path.resolve(__dirname, "..", "idempotency-keys.json");
+
+let stored: Map<string, StoredResponse> | null = null;
+// Keys whose first request hasn't answered yet, with their request hash
+const running = new Map<string, string>();
+
+const isExpired = (response: StoredResponse) =>
+  Date.now() - Date.parse(response.created_at) > IDEMPOTENCY_TTL_SECONDS * 1000;
+
+const loadKeys = () => {
+  if (stored) {
+    return stored;
+  }
+  stored = new Map();
+  if (fs.existsSync(KEYS_FILE)) {
+    const responses: StoredResponse[] = JSON.parse(fs.readFileSync(KEYS_FILE, "utf-8"));
+    for (const response of responses) {
+      if (!isExpired(response)) {
+        stored.set(`${response.scope} ${response.key}`, response);
+      }
+    }
+  }
+  return stored;
+};
+
+const saveKeys = () => {
+  for (const [id, response] of loadKeys()) {
+    if (isExpired(response)) {
+      stored!.delete(id);
+    }
+  }
+  const tmp = `${KEYS_FILE}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(Array.from(stored!.values())));
+  fs.renameSync(tmp, KEYS_FILE);
+};
+
+// Throws when the header value can't be a key
+export const validateIdempotencyKey = (key: string) => {
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH || !/^[\x21-\x7e]+$/.test(key)) {
+    throw new Error(
+      `${IDEMPOTENCY_HEADER} must be 1-${MAX_KEY_LENGTH} printable ASCII characters without spaces`
+    );
+  }
+};
+
+export const idempotencyRequestHash = (body: any) => sha256Hex(canonicalJson(body ?? null));
+
+// Looks the key up and, when it is new, marks it as running until
+// completeIdempotentRequest or releaseIdempotencyKey is called
+export const beginIdempotentRequest = (
+  scope: string,
+  key: string,
+  request_hash: string
+): IdempotencyLookup => {
+  const id = `${scope} ${key}`;
+  const response = loadKeys().get(id);
+  if (response && !isExpired(response)) {
+    return response.request_hash === request_hash
+      ? { state: "replay", status: response.status, body: response.body }
+      : { state: "mismatch" };
+  }
+  const running_hash = running.get(id);
+  if (running_hash !== undefined) {
+    return running_hash === request_hash ? { state: "in_progress" } : { state: "mismatch" };
+  }
+  running.set(id, request_hash);
+  return { state: "new" };
+};
+
+// Keeps the response for replay; 5xx responses only release the key
+export const completeIdempotentRequest = (
+  scope: string,
+  key: string,
+  status: number,
+  body: any
+) => {
+  const id = `${scope} ${key}`;
+  const request_hash = running.get(id);
+  running.delete(id);
+  if (request_hash === undefined || status >= 500) {
+    return;
+  }
+  loadKeys().set(id, {
+    scope,
+    key,
+    request_hash,
+    status,
+    body,
+    created_at: new Date().toISOString(),
+  });
+  saveKeys();
+};
+
+// For requests that ended without a JSON response to keep (e.g. streams)
+export const releaseIdempotencyKey = (scope: string, key: string) => {
+  running.delete(`${scope} ${key}`);
+};
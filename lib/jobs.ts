@@ -0,0 +1,267 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { EventEmitter } from "events";
+
+// Persisted generation jobs. Every route that generates a dataset goes through
+// a job so progress survives the HTTP request and can be polled or cancelled.
+
+export type JobStatus =
+  | "queued"
+  | "fetching"
+  | "generating"
+  | "uploading"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface GenerationJob {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  params: any;
+  rows_total: number;
+  rows_done: number;
+  rows_failed: number;
+  failures: any[];
+  irys_links: {
+    content_url: string | null;
+    metadata_url: string | null;
+  };
+  result: any | null;
+  error: string | null;
+  cancel_requested: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+const JOBS_FILE = path.resolve(__dirname, "..", "jobs.json");
+
+const FINISHED_STATUSES: JobStatus[] = ["completed", "failed", "cancelled"];
+
+// Finished jobs beyond this many are forgotten, oldest first
+const MAX_STORED_JOBS = Number(process.env.MAX_STORED_JOBS) || 500;
+// Progress updates are written to disk at most this often; status changes
+// are written right away
+const SAVE_INTERVAL_MS = 1000;
+
+const jobs = new Map<string, GenerationJob>();
+
+let save_timer: NodeJS.Timeout | null = null;
+
+// On disk a job keeps its result without the generated rows, which can be
+// large and are published at irys_links.content_url anyway
+const toStoredJob = (job: GenerationJob): GenerationJob => {
+  if (!job.result || job.result.data === undefined) {
+    return job;
+  }
+  const { data, ...result } = job.result;
+  return { ...job, result: { ...result, rows_stored: false } };
+};
+
+const saveJobs = () => {
+  if (save_timer) {
+    clearTimeout(save_timer);
+    save_timer = null;
+  }
+  const tmp = `${JOBS_FILE}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(Array.from(jobs.values()).map(toStoredJob)));
+  fs.renameSync(tmp, JOBS_FILE);
+};
+
+const scheduleSave = () => {
+  if (!save_timer) {
+    save_timer = setTimeout(saveJobs, SAVE_INTERVAL_MS);
+    save_timer.unref();
+  }
+};
+
+process.on("exit", () => {
+  if (save_timer) {
+    saveJobs();
+  }
+});
+
+const pruneJobs = () => {
+  const finished = Array.from(jobs.values())
+    .filter((job) => FINISHED_STATUSES.includes(job.status))
+    .sort((a, b) => new Date(a.updated_at).getTime() - new Date(b.updated_at).getTime());
+  const excess = jobs.size - MAX_STORED_JOBS;
+  for (const job of finished.slice(0, Math.max(0, excess))) {
+    jobs.delete(job.id);
+  }
+};
+
+const loadJobs = () => {
+  if (!fs.existsSync(JOBS_FILE)) {
+    fs.writeFileSync(JOBS_FILE, JSON.stringify([]));
+    return;
+  }
+  const stored: GenerationJob[] = JSON.parse(fs.readFileSync(JOBS_FILE, "utf-8"));
+  for (const job of stored) {
+    // A job that was still running when the process stopped is marked failed;
+    // POST /api/generate/jobs/:jobId/resume picks it up from its checkpoint
+    if (!FINISHED_STATUSES.includes(job.status)) {
+      job.status = "failed";
+      job.error = "Job interrupted by server restart, resume it to continue";
+      job.updated_at = new Date().toISOString();
+    }
+    jobs.set(job.id, job);
+  }
+  pruneJobs();
+  saveJobs();
+};
+
+loadJobs();
+
+export const isFinishedStatus = (status: JobStatus) => FINISHED_STATUSES.includes(status);
+
+export const isJobFinished = (job: GenerationJob) => isFinishedStatus(job.status);
+
+export const createJob = (kind: string, params: any, rows_total: number) => {
+  const now = new Date().toISOString();
+  const job: GenerationJob = {
+    id: crypto.randomUUID(),
+    kind,
+    status: "queued",
+    params,
+    rows_total,
+    rows_done: 0,
+    rows_failed: 0,
+    failures: [],
+    irys_links: { content_url: null, metadata_url: null },
+    result: null,
+    error: null,
+    cancel_requested: false,
+    created_at: now,
+    updated_at: now,
+  };
+  jobs.set(job.id, job);
+  pruneJobs();
+  saveJobs();
+  return job;
+};
+
+export const getJob = (id: string) => jobs.get(id) || null;
+
+export const listJobs = () =>
+  Array.from(jobs.values()).sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+
+export const updateJob = (id: string, changes: Partial<GenerationJob>) => {
+  const job = jobs.get(id);
+  if (!job) {
+    throw new Error(`Job ${id} not found`);
+  }
+  const previous_status = job.status;
+  Object.assign(job, changes, { updated_at: new Date().toISOString() });
+  if (job.status !== previous_status) {
+    saveJobs();
+    publishJobEvent(id, "status", { status: job.status, error: job.error });
+  } else {
+    scheduleSave();
+  }
+  return job;
+};
+
+// Cancellation is cooperative: the runner checks the flag between rows and
+// before each upload, so a job already uploading finishes that upload first.
+export const requestJobCancel = (id: string) => {
+  const job = jobs.get(id);
+  if (!job) {
+    throw new Error(`Job ${id} not found`);
+  }
+  if (isJobFinished(job)) {
+    return job;
+  }
+  if (job.status === "queued") {
+    return updateJob(id, { cancel_requested: true, status: "cancelled" });
+  }
+  return updateJob(id, { cancel_requested: true });
+};
+
+export const isJobCancelled = (id: string) => {
+  const job = jobs.get(id);
+  return !!job && job.cancel_requested;
+};
+
+// Public view of a job; params may hold the raw input so it is left out
+export const toJobSummary = (job: GenerationJob) => ({
+  job_id: job.id,
+  kind: job.kind,
+  status: job.status,
+  rows_total: job.rows_total,
+  rows_done: job.rows_done,
+  rows_failed: job.rows_failed,
+  failures: job.failures || [],
+  irys_links: job.irys_links,
+  error: job.error,
+  created_at: job.created_at,
+  updated_at: job.updated_at,
+});
+
+// --- Progress events ---
+// In-memory only: the last JOB_EVENT_BUFFER events of each job are kept so a
+// client that connects late (or reconnects with Last-Event-ID) can catch up.
+
+export interface JobEvent {
+  id: number;
+  type: string;
+  data: any;
+  at: string;
+}
+
+const JOB_EVENT_BUFFER = 1000;
+// How long a finished job's events stay available for replay
+const JOB_EVENT_RETENTION_MS = 10 * 60 * 1000;
+
+const jobEvents = new Map<
+  string,
+  { next_id: number; events: JobEvent[]; expiry?: NodeJS.Timeout }
+>();
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export const publishJobEvent = (job_id: string, type: string, data: any) => {
+  let log = jobEvents.get(job_id);
+  if (!log) {
+    log = { next_id: 1, events: [] };
+    jobEvents.set(job_id, log);
+  }
+  const event: JobEvent = { id: log.next_id++, type, data, at: new Date().toISOString() };
+  log.events.push(event);
+  if (log.events.length > JOB_EVENT_BUFFER) {
+    log.events.shift();
+  }
+  emitter.emit(job_id, event);
+
+  if (type === "status" && isFinishedStatus(data.status)) {
+    clearTimeout(log.expiry);
+    log.expiry = setTimeout(() => jobEvents.delete(job_id), JOB_EVENT_RETENTION_MS);
+    log.expiry.unref();
+  }
+  return event;
+};
+
+// Drops a finished run's events before the job runs again (resume), so a
+// stream doesn't replay the old run's final status. Ids keep counting up.
+export const resetJobEvents = (job_id: string) => {
+  const log = jobEvents.get(job_id);
+  if (log) {
+    clearTimeout(log.expiry);
+    log.expiry = undefined;
+    log.events = [];
+  }
+};
+
+// Buffered events with an id greater than after_id
+export const getJobEvents = (job_id: string, after_id = 0) =>
+  (jobEvents.get(job_id)?.events || []).filter((event) => event.id > after_id);
+
+export const subscribeJobEvents = (job_id: string, listener: (event: JobEvent) => void) => {
+  emitter.on(job_id, listener);
+  return () => {
+    emitter.off(job_id, listener);
+  };
+};
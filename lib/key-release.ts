@@ -0,0 +1,81 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+
+// Signed challenges for releasing a private dataset's key, or the original
+// values behind a redaction map. The caller asks for a challenge naming their
+// address and the dataset or map, signs its message with the same key
+// (EIP-191 personal_sign) and sends the signature back. A challenge can be
+// answered once and expires after a few minutes.
+
+export interface KeyReleaseTarget {
+  // NFT whose owner may receive the key
+  token_id?: string;
+  // Metadata of the dataset, when it is not looked up through a token
+  metadata_url?: string;
+  // Redaction map whose original values the owner may see
+  redaction_map_id?: string;
+}
+
+export interface KeyChallenge {
+  nonce: string;
+  address: string;
+  target: KeyReleaseTarget;
+  message: string;
+  expires_at: string;
+}
+
+export const CHALLENGE_TTL_MS = Number(process.env.KEY_CHALLENGE_TTL_MS) || 5 * 60 * 1000;
+
+const challenges = new Map<string, KeyChallenge>();
+
+// Purpose and subject lines of the signed message
+const describeTarget = (target: KeyReleaseTarget) =>
+  target.redaction_map_id !== undefined
+    ? ["Reveal the original values of a redaction map", `Redaction map: ${target.redaction_map_id}`]
+    : [
+        "Release the decryption key of a private dataset",
+        target.token_id !== undefined
+          ? `Dataset: token ${target.token_id}`
+          : `Dataset: dataset ${target.metadata_url}`,
+      ];
+
+export const createKeyChallenge = (address: string, target: KeyReleaseTarget): KeyChallenge => {
+  const nonce = crypto.randomBytes(16).toString("hex");
+  const expires_at = new Date(Date.now() + CHALLENGE_TTL_MS).toISOString();
+  const challenge = {
+    nonce,
+    address: ethers.getAddress(address),
+    target,
+    message: [
+      ...describeTarget(target),
+      `Address: ${ethers.getAddress(address)}`,
+      `Nonce: ${nonce}`,
+      `Expires: ${expires_at}`,
+    ].join("\n"),
+    expires_at,
+  };
+  challenges.set(nonce, challenge);
+  setTimeout(() => challenges.delete(nonce), CHALLENGE_TTL_MS).unref();
+  return challenge;
+};
+
+// The challenge a signature answers. It is used up either way, so a failed
+// attempt needs a new challenge. Throws when the nonce is unknown or
+// expired, or the signature is not from the challenged address.
+export const consumeKeyChallenge = (nonce: string, signature: string): KeyChallenge => {
+  const challenge = challenges.get(nonce);
+  challenges.delete(nonce);
+  if (!challenge || Date.parse(challenge.expires_at) < Date.now()) {
+    throw new Error("Unknown or expired challenge");
+  }
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(challenge.message, signature);
+  } catch {
+    throw new Error("Malformed signature");
+  }
+  if (signer !== challenge.address) {
+    throw new Error("Signature does not match the challenged address");
+  }
+  return challenge;
+};
@@ -0,0 +1,201 @@
+// Target label distribution for a generation run, e.g. 40% Cardiology,
+// 30% Neurology, 30% Pulmonology. The target is turned into per-label row
+// quotas; each row's prompt asks for one label and rows whose label is not a
+// target, or whose bucket is already full, are rejected so they can be
+// regenerated toward a label that still has room.
+
+export interface LabelDistributionOptions {
+  // Output field holding the label
+  label_field: string;
+  // Label -> share of rows, normalized to sum to 1
+  target: Record<string, number>;
+}
+
+export interface LabelDistributionReport {
+  label_field: string;
+  target: Record<string, number>;
+  quotas: Record<string, number>;
+  // Rows per target label in the final dataset
+  achieved: Record<string, number>;
+  achieved_fraction: Record<string, number>;
+  // Final rows whose label is not one of the targets
+  off_target: number;
+  // Rows rejected during generation, by reason
+  rejected: { off_target: number; quota_full: number };
+  // Target labels that ended below their quota
+  unfilled: Record<string, number>;
+}
+
+export type LabelRejection = "label_off_target" | "label_quota_full";
+
+const MAX_LABELS = 50;
+
+const normalizeLabel = (label: any) => String(label ?? "").trim().toLowerCase();
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// Reads the request's `label_distribution`: an object of label -> weight.
+// Weights may be percentages or fractions; they are normalized to sum to 1.
+// Null when not given; throws on invalid values.
+export const parseLabelDistribution = (value: any): Record<string, number> | null => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("label_distribution must be an object of label -> weight");
+  }
+  const entries = Object.entries(value);
+  if (entries.length === 0 || entries.length > MAX_LABELS) {
+    throw new Error(`label_distribution must have between 1 and ${MAX_LABELS} labels`);
+  }
+  const seen = new Set<string>();
+  for (const [label, weight] of entries) {
+    if (label.trim() === "") {
+      throw new Error("label_distribution labels must not be empty");
+    }
+    if (seen.has(normalizeLabel(label))) {
+      throw new Error(`label_distribution lists "${label}" twice`);
+    }
+    seen.add(normalizeLabel(label));
+    if (typeof weight !== "number" || !Number.isFinite(weight) || weight <= 0) {
+      throw new Error(`label_distribution weight for "${label}" must be a positive number`);
+    }
+  }
+  const total = entries.reduce((sum, [, weight]) => sum + (weight as number), 0);
+  return Object.fromEntries(
+    entries.map(([label, weight]) => [label.trim(), round((weight as number) / total)])
+  );
+};
+
+// Row counts per label for `total` rows, by largest remainder so they sum to total
+export const allocateQuotas = (target: Record<string, number>, total: number) => {
+  const labels = Object.keys(target);
+  const exact = labels.map((label) => target[label] * total);
+  const quotas = exact.map(Math.floor);
+  let remaining = total - quotas.reduce((sum, quota) => sum + quota, 0);
+  const byRemainder = labels
+    .map((_, index) => index)
+    .sort((a, b) => exact[b] - quotas[b] - (exact[a] - quotas[a]) || a - b);
+  for (const index of byRemainder) {
+    if (remaining <= 0) break;
+    quotas[index]++;
+    remaining--;
+  }
+  return Object.fromEntries(labels.map((label, index) => [label, quotas[index]]));
+};
+
+// Target label for each row. Labels are interleaved in proportion to their
+// quotas, so any prefix of the run (or of one seed's variants) stays balanced.
+export const assignLabels = (quotas: Record<string, number>) => {
+  const labels = Object.keys(quotas);
+  const total = labels.reduce((sum, label) => sum + quotas[label], 0);
+  const assigned: Record<string, number> = Object.fromEntries(labels.map((label) => [label, 0]));
+  const targets: string[] = [];
+  for (let k = 0; k < total; k++) {
+    let best = labels[0];
+    let bestDeficit = -Infinity;
+    for (const label of labels) {
+      const deficit = (quotas[label] * (k + 1)) / total - assigned[label];
+      if (assigned[label] < quotas[label] && deficit > bestDeficit) {
+        best = label;
+        bestDeficit = deficit;
+      }
+    }
+    assigned[best]++;
+    targets.push(best);
+  }
+  return targets;
+};
+
+// Tracks accepted rows per label for one run
+export const createLabelBalancer = (options: LabelDistributionOptions, total: number) => {
+  const quotas = allocateQuotas(options.target, total);
+  const labels = Object.keys(quotas);
+  const counts: Record<string, number> = Object.fromEntries(labels.map((label) => [label, 0]));
+  const rejected = { off_target: 0, quota_full: 0 };
+
+  const bucketOf = (label: any) =>
+    labels.find((candidate) => normalizeLabel(candidate) === normalizeLabel(label)) || null;
+
+  return {
+    quotas,
+    // Initial target label per row index
+    targets: assignLabels(quotas),
+
+    labelOf: (output: any) => output?.[options.label_field],
+
+    // Why a row with this label can't be kept, or null when its bucket has room
+    check: (label: any): LabelRejection | null => {
+      const bucket = bucketOf(label);
+      if (!bucket) {
+        rejected.off_target++;
+        return "label_off_target";
+      }
+      if (counts[bucket] >= quotas[bucket]) {
+        rejected.quota_full++;
+        return "label_quota_full";
+      }
+      return null;
+    },
+
+    accept: (label: any) => {
+      const bucket = bucketOf(label);
+      if (bucket) counts[bucket]++;
+    },
+
+    // Labels to steer `slots` regenerated rows toward, filling the largest
+    // remaining deficits first
+    retarget: (slots: number) => {
+      const pending: Record<string, number> = Object.fromEntries(labels.map((label) => [label, 0]));
+      const targets: string[] = [];
+      for (let k = 0; k < slots; k++) {
+        let best = labels[0];
+        let bestDeficit = -Infinity;
+        for (const label of labels) {
+          const deficit = quotas[label] - counts[label] - pending[label];
+          if (deficit > bestDeficit) {
+            best = label;
+            bestDeficit = deficit;
+          }
+        }
+        pending[best]++;
+        targets.push(best);
+      }
+      return targets;
+    },
+
+    // Achieved distribution over the rows that made it into the dataset
+    report: (rows: { synthetic_output: any }[]): LabelDistributionReport => {
+      const achieved: Record<string, number> = Object.fromEntries(
+        labels.map((label) => [label, 0])
+      );
+      let off_target = 0;
+      for (const row of rows) {
+        const bucket = bucketOf(row.synthetic_output?.[options.label_field]);
+        if (bucket) {
+          achieved[bucket]++;
+        } else {
+          off_target++;
+        }
+      }
+      const unfilled: Record<string, number> = {};
+      for (const label of labels) {
+        if (achieved[label] < quotas[label]) {
+          unfilled[label] = quotas[label] - achieved[label];
+        }
+      }
+      return {
+        label_field: options.label_field,
+        target: options.target,
+        quotas,
+        achieved,
+        achieved_fraction: Object.fromEntries(
+          labels.map((label) => [label, rows.length > 0 ? round(achieved[label] / rows.length) : 0])
+        ),
+        off_target,
+        rejected: { ...rejected },
+        unfilled,
+      };
+    },
+  };
+};
@@ -0,0 +1,157 @@
+import Ajv, { ValidateFunction } from "ajv";
+import { SchemaType } from "@google/generative-ai";
+
+// Caller-supplied JSON Schema describing each synthetic record. The schema is
+// sent to the model as a structured-output constraint and every row is
+// validated against it afterwards.
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const compiled = new Map<string, ValidateFunction>();
+
+export interface OutputValidator {
+  // Returns a list of human-readable problems; empty when the output is valid
+  validate: (output: any) => string[];
+}
+
+export const compileOutputSchema = (schema: any): OutputValidator => {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new Error("Invalid output_schema: must be a JSON Schema object");
+  }
+  if (schema.type !== "object" || !schema.properties) {
+    throw new Error('Invalid output_schema: top level must be { "type": "object", "properties": {...} }');
+  }
+
+  const key = JSON.stringify(schema);
+  let validateFn = compiled.get(key);
+  if (!validateFn) {
+    try {
+      validateFn = ajv.compile(schema);
+    } catch (error) {
+      throw new Error(`Invalid output_schema: ${(error as Error).message}`);
+    }
+    compiled.set(key, validateFn);
+  }
+
+  const check = validateFn;
+  return {
+    validate: (output: any) => {
+      if (check(output)) {
+        return [];
+      }
+      return (check.errors || []).map(
+        (error) => `${error.instancePath || "/"} ${error.message}`
+      );
+    },
+  };
+};
+
+// Fallback check when no schema is given: every field present and non-empty
+export const requiredFieldsValidator = (fields: string[]): OutputValidator => ({
+  validate: (output: any) =>
+    fields
+      .filter((key) => !(output && key in output && output[key]))
+      .map((key) => `/${key} is missing or empty`),
+});
+
+export const schemaFieldDescriptions = (schema: any) =>
+  Object.entries(schema.properties || {}).map(([name, property]: [string, any]) => ({
+    name,
+    description:
+      property.description ||
+      `${property.type || "value"}${property.enum ? ` (one of ${property.enum.join(", ")})` : ""}`,
+  }));
+
+// Converts JSON Schema to the OpenAPI subset Gemini accepts as responseSchema.
+// Unsupported keywords (lengths, patterns, ...) are dropped here and enforced
+// by validation instead.
+export const toGeminiSchema = (schema: any): any => {
+  const types: any[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const nullable = types.includes("null");
+  const type = types.find((candidate) => candidate !== "null") || "string";
+  const base: any = {};
+  if (schema.description) base.description = schema.description;
+  if (nullable) base.nullable = true;
+
+  switch (type) {
+    case "object":
+      return {
+        ...base,
+        type: SchemaType.OBJECT,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties || {}).map(([name, property]) => [
+            name,
+            toGeminiSchema(property),
+          ])
+        ),
+        required: schema.required,
+      };
+    case "array":
+      return {
+        ...base,
+        type: SchemaType.ARRAY,
+        items: toGeminiSchema(schema.items || { type: "string" }),
+        minItems: schema.minItems,
+        maxItems: schema.maxItems,
+      };
+    case "integer":
+      return { ...base, type: SchemaType.INTEGER };
+    case "number":
+      return { ...base, type: SchemaType.NUMBER };
+    case "boolean":
+      return { ...base, type: SchemaType.BOOLEAN };
+    default:
+      return schema.enum
+        ? { ...base, type: SchemaType.STRING, format: "enum", enum: schema.enum.map(String) }
+        : { ...base, type: SchemaType.STRING };
+  }
+};
+
+// Builds a deterministic value satisfying the schema; `pick` maps a key to a
+// stable number so different seeds give different values.
+export const sampleFromSchema = (
+  schema: any,
+  pick: (key: string) => number,
+  key = ""
+): any => {
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[pick(key) % schema.enum.length];
+  }
+  const types: any[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const type = types.find((candidate) => candidate !== "null") || "string";
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, property]) => [
+          name,
+          sampleFromSchema(property, pick, key ? `${key}.${name}` : name),
+        ])
+      );
+    case "array": {
+      const count = Math.max(schema.minItems || 1, Math.min(schema.maxItems ?? 2, 2));
+      return Array.from({ length: count }, (_, index) =>
+        sampleFromSchema(schema.items || { type: "string" }, pick, `${key}[${index}]`)
+      );
+    }
+    case "integer":
+    case "number": {
+      const min = schema.minimum ?? (schema.maximum !== undefined ? schema.maximum - 100 : 0);
+      const max = schema.maximum ?? min + 100;
+      const value = min + (pick(key) % (max - min + 1));
+      return type === "integer" ? Math.floor(value) : value;
+    }
+    case "boolean":
+      return pick(key) % 2 === 0;
+    default: {
+      let value = `Fixture ${(key || "value").replace(/_/g, " ")} ${pick(key).toString(16)}`;
+      if (schema.minLength && value.length < schema.minLength) {
+        value = value.padEnd(schema.minLength, ".");
+      }
+      if (schema.maxLength && value.length > schema.maxLength) {
+        value = value.slice(0, schema.maxLength);
+      }
+      return value;
+    }
+  }
+};
@@ -0,0 +1,365 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Local PHI/PII detection. Finds identifiers in free text with pattern rules
+// (no network calls) and compares a synthetic row against its source text to
+// catch identifiers the model carried over verbatim.
+
+export type IdentifierType =
+  | "NAME"
+  | "DATE"
+  | "PHONE"
+  | "MRN"
+  | "EMAIL"
+  | "ADDRESS"
+  | "AGE";
+
+export interface IdentifierSpan {
+  type: IdentifierType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface DetectionRule {
+  type: IdentifierType;
+  pattern: RegExp;
+  // Capture group holding the identifier; 0 for the whole match
+  group?: number;
+  accept?: (value: string) => boolean;
+}
+
+const MONTHS =
+  "Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?";
+
+const STREET_SUFFIXES =
+  "Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Highway|Hwy";
+
+// Capitalized words that start clinical phrases ("Blood Pressure was", "The
+// Patient has"), so they aren't taken for a bare name
+const NAME_STOPWORDS = new Set(
+  (
+    "The This That These Those His Her Their Our My Patient Chest Blood Heart Physical Past " +
+    "Family Social Medical Surgical Review History Exam Lab Labs Vital Vitals Pain Pressure Rate " +
+    "Today Yesterday Emergency General Left Right Mental Abdominal Urine Test Results Status " +
+    "Department Room Unit Level Levels Count Temperature Weight Diagnosis Plan Assessment"
+  ).split(" ")
+);
+
+const isBareName = (value: string) =>
+  value.split(/\s+/).every((word) => !NAME_STOPWORDS.has(word.replace(/\.$/, "")));
+
+// HIPAA Safe Harbor treats ages over 89 as identifying
+const isAgeOver89 = (value: string) => Number(value) > 89 && Number(value) < 130;
+
+// Order matters: earlier rules win when spans overlap
+const RULES: DetectionRule[] = [
+  { type: "EMAIL", pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  {
+    type: "MRN",
+    pattern:
+      /\b(?:MRN|medical record(?: number| no\.?)?|patient id|record (?:no\.?|number|#)|account (?:no\.?|number|#))\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{4,})\b/gi,
+    group: 1,
+  },
+  { type: "MRN", pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  {
+    type: "PHONE",
+    pattern: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g,
+  },
+  {
+    type: "DATE",
+    pattern: new RegExp(
+      `\\b(?:(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{1,2}\\s+(?:${MONTHS})\\.?,?\\s+\\d{4})\\b`,
+      "g"
+    ),
+  },
+  { type: "DATE", pattern: /\b(?:\d{4}-\d{2}-\d{2}|\d{1,2}[\/.-]\d{1,2}[\/.-]\d{2,4})\b/g },
+  {
+    type: "ADDRESS",
+    pattern: new RegExp(
+      `\\b\\d{1,6}\\s+(?:[A-Z][a-z]+\\s+){1,3}(?:${STREET_SUFFIXES})\\b`,
+      "g"
+    ),
+  },
+  {
+    type: "AGE",
+    pattern: /\b(\d{2,3})[\s-]*(?:years?|yrs?)[\s-]*old\b/gi,
+    group: 1,
+    accept: isAgeOver89,
+  },
+  {
+    type: "AGE",
+    pattern: /\b(?:age[ds]?\s*:?\s*|)(\d{2,3})\s*(?:y\/o|yo|y\.o\.)(?=\W|$)/gi,
+    group: 1,
+    accept: isAgeOver89,
+  },
+  { type: "AGE", pattern: /\baged?\s*:?\s*(\d{2,3})\b/gi, group: 1, accept: isAgeOver89 },
+  {
+    type: "NAME",
+    pattern: /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.?\s+[A-Z][a-zA-Z'-]+(?:\s+[A-Z][a-zA-Z'-]+)?/g,
+  },
+  {
+    type: "NAME",
+    pattern:
+      /\b(?:[Nn]ame(?:d| is|:)|[Pp]atient(?: name)?:?|[Pp]t\.?)\s+([A-Z][a-z'-]+(?:\s+[A-Z]\.)?(?:\s+[A-Z][a-z'-]+)+)/g,
+    group: 1,
+  },
+  // A bare "First Last" opening a narrative: "John Smith presented with ...",
+  // "Jane Doe, 45, reports ...". Without a title or label a name is only
+  // recognized in front of one of these words.
+  {
+    type: "NAME",
+    pattern:
+      /\b([A-Z][a-z'-]+(?:\s+[A-Z]\.)?\s+[A-Z][a-z'-]+)(?=,?\s+(?:\d{1,3}\b|presented|presents|was|is|has|had|reports?|reported|complains?|complained|denies|denied|underwent|came|arrived|visited|returned|states?|stated)\b)/g,
+    group: 1,
+    accept: isBareName,
+  },
+];
+
+export const detectIdentifiers = (text: string): IdentifierSpan[] => {
+  const spans: IdentifierSpan[] = [];
+  if (!text) {
+    return spans;
+  }
+
+  for (const rule of RULES) {
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = rule.pattern.exec(text)) !== null) {
+      const value = match[rule.group || 0];
+      if (!value || (rule.accept && !rule.accept(value))) {
+        continue;
+      }
+      const start = match.index + match[0].indexOf(value);
+      const end = start + value.length;
+      if (!spans.some((span) => start < span.end && end > span.start)) {
+        spans.push({ type: rule.type, value, start, end });
+      }
+    }
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+};
+
+// All string values of a (possibly nested) synthetic output, joined
+export const collectText = (value: any): string => {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.map(collectText).join("\n");
+  if (value && typeof value === "object") {
+    return Object.values(value).map(collectText).join("\n");
+  }
+  return "";
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, " ").trim();
+const digitsOnly = (value: string) => value.replace(/\D/g, "");
+
+// Identifiers found in the caller's input before redaction, kept as hashes so
+// a job can check its rows against them without storing the values. PHONE
+// and MRN are compared by their digits, everything else by its words. The
+// hashes are HMACs under a server key: they are persisted with the job, and a
+// plain hash of a phone number or a name is easy to reverse by guessing.
+export interface IdentifierFingerprint {
+  type: IdentifierType;
+  hash: string;
+}
+
+const isNumericType = (type: IdentifierType) => type === "PHONE" || type === "MRN";
+
+const words = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const FINGERPRINT_KEY_FILE = path.resolve(__dirname, "..", "fingerprint.key");
+
+let fingerprintKey: Buffer | null = null;
+
+// FINGERPRINT_KEY (64 hex chars) when set; otherwise a key generated on first
+// use and kept in fingerprint.key. Fingerprints made under another key never
+// match, so changing it only weakens the check for jobs already queued.
+const getFingerprintKey = () => {
+  if (fingerprintKey) {
+    return fingerprintKey;
+  }
+  const configured =
+    process.env.FINGERPRINT_KEY ||
+    (fs.existsSync(FINGERPRINT_KEY_FILE)
+      ? fs.readFileSync(FINGERPRINT_KEY_FILE, "utf-8").trim()
+      : "");
+  if (configured) {
+    if (!/^[0-9a-fA-F]{64}$/.test(configured)) {
+      throw new Error("FINGERPRINT_KEY must be 32 bytes of hex");
+    }
+    fingerprintKey = Buffer.from(configured, "hex");
+  } else {
+    fingerprintKey = crypto.randomBytes(32);
+    fs.writeFileSync(FINGERPRINT_KEY_FILE, fingerprintKey.toString("hex"), { mode: 0o600 });
+  }
+  return fingerprintKey;
+};
+
+const fingerprintHash = (value: string) =>
+  crypto.createHmac("sha256", getFingerprintKey()).update(value).digest("hex");
+
+// Ages are left out: a bare number like 92 turns up in outputs for other reasons
+export const fingerprintIdentifiers = (text: string): IdentifierFingerprint[] =>
+  detectIdentifiers(text)
+    .filter((span) => span.type !== "AGE")
+    .map((span) => ({
+      type: span.type,
+      hash: fingerprintHash(
+        isNumericType(span.type) ? digitsOnly(span.value) : words(span.value)
+      ),
+    }));
+
+// Longest identifier, in words, matched against fingerprints
+const MAX_FINGERPRINT_WORDS = 8;
+
+// Runs of up to MAX_FINGERPRINT_WORDS words of the output whose hash matches
+// a fingerprint
+const matchFingerprints = (output: string, fingerprints: IdentifierFingerprint[]) => {
+  const byHash = new Map(fingerprints.map((fingerprint) => [fingerprint.hash, fingerprint.type]));
+  const tokens = words(output).split(" ").filter(Boolean);
+  const found: { type: IdentifierType; value: string }[] = [];
+  for (let start = 0; start < tokens.length; start++) {
+    const last = Math.min(tokens.length, start + MAX_FINGERPRINT_WORDS);
+    for (let end = start + 1; end <= last; end++) {
+      const run = tokens.slice(start, end);
+      const candidates = [run.join(" ")];
+      if (run.every((token) => /^\d+$/.test(token))) {
+        candidates.push(run.join(""));
+      }
+      for (const candidate of candidates) {
+        const type = byHash.get(fingerprintHash(candidate));
+        if (type && (isNumericType(type) ? /^\d+$/.test(candidate) : true)) {
+          found.push({ type, value: run.join(" ") });
+        }
+      }
+    }
+  }
+  return found;
+};
+
+export type PrivacyVerdictStatus = "pass" | "warn" | "fail";
+
+export interface PrivacyVerdict {
+  // fail: identifiers copied from the source; warn: identifiers present in the
+  // output that weren't in the source; pass: neither
+  verdict: PrivacyVerdictStatus;
+  leaked: { type: IdentifierType; value: string }[];
+  output_identifiers: { type: IdentifierType; value: string }[];
+}
+
+// original_text is the seed as the model saw it, so after redaction it no
+// longer holds the identifiers that were replaced; source_identifiers are
+// the fingerprints of the input before redaction, and an output that contains
+// one of those fails too.
+export const checkRowPrivacy = (
+  original_text: string,
+  synthetic_output: any,
+  source_identifiers: IdentifierFingerprint[] = []
+): PrivacyVerdict => {
+  const outputText = collectText(synthetic_output);
+  const sourceSpans = detectIdentifiers(original_text);
+  const outputSpans = detectIdentifiers(outputText);
+  const normalizedOutput = normalize(outputText);
+  const outputDigits = outputSpans
+    .filter((span) => span.type === "PHONE" || span.type === "MRN")
+    .map((span) => digitsOnly(span.value));
+
+  const leaked = sourceSpans
+    .filter((span) => {
+      if (span.type === "PHONE" || span.type === "MRN") {
+        const digits = digitsOnly(span.value);
+        if (digits.length > 0 && outputDigits.includes(digits)) {
+          return true;
+        }
+      }
+      return normalizedOutput.includes(normalize(span.value));
+    })
+    .map(({ type, value }) => ({ type, value }));
+  for (const item of matchFingerprints(outputText, source_identifiers)) {
+    if (!leaked.some((known) => words(known.value) === item.value)) {
+      leaked.push(item);
+    }
+  }
+
+  const leakedValues = new Set(leaked.map((item) => words(item.value)));
+  const leakedDigits = new Set(
+    leaked
+      .filter((item) => item.type === "PHONE" || item.type === "MRN")
+      .map((item) => digitsOnly(item.value))
+  );
+  const output_identifiers = outputSpans
+    .filter(
+      (span) =>
+        !leakedValues.has(words(span.value)) &&
+        !((span.type === "PHONE" || span.type === "MRN") && leakedDigits.has(digitsOnly(span.value)))
+    )
+    .map(({ type, value }) => ({ type, value }));
+
+  return {
+    verdict: leaked.length > 0 ? "fail" : output_identifiers.length > 0 ? "warn" : "pass",
+    leaked,
+    output_identifiers,
+  };
+};
+
+// What happens to rows whose verdict is "fail":
+//   flag       - keep them, marked with the verdict
+//   drop       - remove them from the dataset
+//   quarantine - keep them out of the upload, but return them to the caller
+export type PrivacyPolicy = "flag" | "drop" | "quarantine";
+
+export const PRIVACY_POLICIES: PrivacyPolicy[] = ["flag", "drop", "quarantine"];
+
+// Null when the value is not a policy
+export const parsePrivacyPolicy = (value: any): PrivacyPolicy | null =>
+  PRIVACY_POLICIES.includes(value) ? value : null;
+
+export interface PrivacyReport {
+  policy: PrivacyPolicy;
+  rows_checked: number;
+  passed: number;
+  warned: number;
+  failed: number;
+  removed: number;
+  leaked_by_type: Partial<Record<IdentifierType, number>>;
+}
+
+export const applyPrivacyPolicy = <T extends { privacy?: PrivacyVerdict }>(
+  rows: T[],
+  policy: PrivacyPolicy
+) => {
+  const report: PrivacyReport = {
+    policy,
+    rows_checked: rows.length,
+    passed: 0,
+    warned: 0,
+    failed: 0,
+    removed: 0,
+    leaked_by_type: {},
+  };
+  const kept: T[] = [];
+  const removed: T[] = [];
+
+  for (const row of rows) {
+    const verdict = row.privacy?.verdict || "pass";
+    if (verdict === "pass") report.passed++;
+    if (verdict === "warn") report.warned++;
+    if (verdict === "fail") {
+      report.failed++;
+      for (const item of row.privacy!.leaked) {
+        report.leaked_by_type[item.type] = (report.leaked_by_type[item.type] || 0) + 1;
+      }
+    }
+
+    if (verdict === "fail" && policy !== "flag") {
+      removed.push(row);
+    } else {
+      kept.push(row);
+    }
+  }
+
+  report.removed = removed.length;
+  return { kept, removed, report };
+};
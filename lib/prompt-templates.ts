@@ -0,0 +1,223 @@
+import { schemaFieldDescriptions } from "./output-schema";
+import { UNTRUSTED_DATA_NOTICE, delimitUntrusted } from "./prompt-injection";
+
+// Prompt templates for synthetic data generation, keyed by domain. A template
+// owns its instructions, the output fields the model must return and its
+// few-shot examples, so adding a domain doesn't touch the generation code.
+
+export interface TemplateField {
+  name: string;
+  description: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  version: string;
+  // Request `domain` values this template serves (lowercase)
+  domains: string[];
+  description: string;
+  instructions: string;
+  // Heading shown above the source text, e.g. "Original Transcription"
+  source_label: string;
+  output_fields: TemplateField[];
+  // Output field holding the record's category label
+  label_field: string;
+  examples: Record<string, string>[];
+}
+
+const templates = new Map<string, PromptTemplate>();
+
+export const DEFAULT_TEMPLATE_ID = "generic";
+
+export const registerPromptTemplate = (template: PromptTemplate) => {
+  if (!template.output_fields.some((field) => field.name === template.label_field)) {
+    throw new Error(
+      `Template ${template.id}: label_field "${template.label_field}" is not an output field`
+    );
+  }
+  templates.set(template.id, template);
+};
+
+registerPromptTemplate({
+  id: "medical-transcription",
+  version: "1.0.0",
+  domains: [
+    "medical",
+    "medicine",
+    "healthcare",
+    "clinical",
+    "pulmonology",
+    "cardiology",
+    "neurology",
+    "oncology",
+    "radiology",
+    "dermatology",
+    "gastroenterology",
+    "orthopedics",
+    "pediatrics",
+    "psychiatry",
+  ],
+  description: "Paraphrased medical transcriptions labelled with a specialty",
+  instructions: `You are a helpful assistant for creating synthetic medical data.
+Based on the following medical transcription, please generate a new, paraphrased version.
+The new version should be medically coherent but different in wording.
+Also, provide a new 'medical_specialty' and a brief 'explanation' for the generated transcription.`,
+  source_label: "Original Transcription",
+  output_fields: [
+    { name: "synthetic_transcription", description: "The new, paraphrased transcription." },
+    { name: "medical_specialty", description: "The relevant medical specialty." },
+    { name: "explanation", description: "A brief explanation of the synthetic transcription." },
+  ],
+  label_field: "medical_specialty",
+  examples: [
+    {
+      synthetic_transcription:
+        "The patient reports a history of chronic migraines and is currently prescribed sumatriptan.",
+      medical_specialty: "Neurology",
+      explanation:
+        "This transcription documents a patient's history and treatment for a neurological condition.",
+    },
+  ],
+});
+
+registerPromptTemplate({
+  id: "finance-transaction",
+  version: "1.0.0",
+  domains: ["finance", "financial", "banking", "fraud", "payments", "fintech"],
+  description: "Synthetic financial transaction records labelled with a category",
+  instructions: `You are a helpful assistant for creating synthetic financial data.
+Based on the following transaction record, please generate a new, realistic transaction description.
+Amounts, times, merchants and account details must be changed, but the kind of activity should stay plausible.
+Also, provide a 'transaction_category' and a brief 'explanation' for the generated record.`,
+  source_label: "Original Transaction",
+  output_fields: [
+    { name: "synthetic_transaction", description: "The new transaction description." },
+    {
+      name: "transaction_category",
+      description:
+        "The transaction category, e.g. Groceries, Transfer, Suspicious Transfer, Subscription.",
+    },
+    { name: "explanation", description: "A brief explanation of the synthetic transaction." },
+  ],
+  label_field: "transaction_category",
+  examples: [
+    {
+      synthetic_transaction:
+        "Outgoing wire of $4,750 at 02:41 to a newly added overseas beneficiary, initiated from a new device.",
+      transaction_category: "Suspicious Transfer",
+      explanation:
+        "Large off-hours transfer to an unfamiliar payee from an unrecognized device, a common fraud pattern.",
+    },
+  ],
+});
+
+registerPromptTemplate({
+  id: "ecommerce-behavior",
+  version: "1.0.0",
+  domains: ["ecommerce", "e-commerce", "retail", "customer behavior"],
+  description: "Synthetic customer journey descriptions labelled with an intent",
+  instructions: `You are a helpful assistant for creating synthetic e-commerce data.
+Based on the following customer session, please generate a new, realistic session description.
+Products, timings and customer details must be changed, but the shopping behaviour should stay plausible.
+Also, provide a 'customer_intent' and a brief 'explanation' for the generated session.`,
+  source_label: "Original Session",
+  output_fields: [
+    { name: "synthetic_session", description: "The new customer session description." },
+    {
+      name: "customer_intent",
+      description: "The customer's intent, e.g. Purchase, Comparison, Abandonment, Support.",
+    },
+    { name: "explanation", description: "A brief explanation of the synthetic session." },
+  ],
+  label_field: "customer_intent",
+  examples: [
+    {
+      synthetic_session:
+        "Shopper views three running shoes, filters by size 42, adds one pair to the cart and leaves at the shipping step.",
+      customer_intent: "Abandonment",
+      explanation: "The customer showed purchase intent but dropped out once shipping costs appeared.",
+    },
+  ],
+});
+
+registerPromptTemplate({
+  id: DEFAULT_TEMPLATE_ID,
+  version: "1.0.0",
+  domains: [],
+  description: "Domain-agnostic paraphrase with a free-form category",
+  instructions: `You are a helpful assistant for creating synthetic data.
+Based on the following record, please generate a new, paraphrased version.
+The new version should keep the meaning but be different in wording and must not copy personal details.
+Also, provide a 'category' and a brief 'explanation' for the generated record.`,
+  source_label: "Original Record",
+  output_fields: [
+    { name: "synthetic_text", description: "The new, paraphrased record." },
+    { name: "category", description: "A short category describing the record." },
+    { name: "explanation", description: "A brief explanation of the synthetic record." },
+  ],
+  label_field: "category",
+  examples: [
+    {
+      synthetic_text: "The customer asked to move their delivery to the following Tuesday morning.",
+      category: "Scheduling",
+      explanation: "A request to change the timing of a delivery.",
+    },
+  ],
+});
+
+export const getPromptTemplate = (id: string) => templates.get(id) || null;
+
+export const listPromptTemplates = () => Array.from(templates.values());
+
+// Explicit template id wins; otherwise the first template serving the domain
+export const resolvePromptTemplate = (domain?: string, template_id?: string) => {
+  if (template_id) {
+    const template = getPromptTemplate(template_id);
+    if (!template) {
+      throw new Error(`Unknown prompt template "${template_id}"`);
+    }
+    return template;
+  }
+  const key = (domain || "").trim().toLowerCase();
+  const match = listPromptTemplates().find((template) => template.domains.includes(key));
+  return match || getPromptTemplate(DEFAULT_TEMPLATE_ID)!;
+};
+
+// With an output schema the keys come from the schema and the template's
+// examples are left out, since they would show the wrong shape. A target
+// label asks for a specific value in the label field (label distribution).
+export const renderPrompt = (
+  template: PromptTemplate,
+  original_text: string,
+  output_schema?: any,
+  target_label?: { field: string; value: string }
+) => {
+  const fields = output_schema
+    ? schemaFieldDescriptions(output_schema)
+    : template.output_fields;
+  const fieldList = fields
+    .map((field) => `- "${field.name}": ${field.description}`)
+    .join("\n");
+
+  const closing = output_schema
+    ? `The output must conform to this JSON Schema:
+${JSON.stringify(output_schema, null, 2)}`
+    : `Example Output:
+${template.examples.map((example) => JSON.stringify(example, null, 2)).join("\n\n")}`;
+
+  return `${template.instructions}
+
+${UNTRUSTED_DATA_NOTICE}
+
+${template.source_label}:
+${delimitUntrusted(original_text)}
+
+Please provide the output in a valid JSON format with the following keys:
+${fieldList}
+${target_label ? `\nThe "${target_label.field}" of the new record must be "${target_label.value}", and the record must fit that label.\n` : ""}
+${closing}
+`;
+};
+
+export const templateFieldNames = (template: PromptTemplate) =>
+  template.output_fields.map((field) => field.name);
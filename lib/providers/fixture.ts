@@ -0,0 +1,64 @@
+import fs from "fs";
+import crypto from "crypto";
+import { GenerationConfig, LLMProvider } from "./types";
+import { sleep } from "../retry";
+import { sampleFromSchema } from "../output-schema";
+
+// Offline provider: the same prompt, seed and model always give the same
+// output, so the API can run and be tested without network access.
+//
+// With FIXTURE_RESPONSES_FILE set to a JSON array, responses are picked from
+// it; otherwise a value is generated from the response schema, or each
+// expected field gets a placeholder string.
+export const createFixtureProvider = (model: string): LLMProvider => {
+  const responsesFile = process.env.FIXTURE_RESPONSES_FILE;
+  const responses: any[] | null = responsesFile
+    ? JSON.parse(fs.readFileSync(responsesFile, "utf-8"))
+    : null;
+  const delay = Number(process.env.FIXTURE_DELAY_MS) || 0;
+
+  return {
+    name: "fixture",
+    model,
+    generateJson: async (prompt: string, config: GenerationConfig) => {
+      if (delay > 0) {
+        await sleep(delay);
+      }
+
+      const digest = crypto
+        .createHash("sha256")
+        .update(`${model}\n${config.seed ?? 0}\n${prompt}`)
+        .digest("hex");
+
+      let json: any;
+      if (responses && responses.length > 0) {
+        json = responses[parseInt(digest.slice(0, 8), 16) % responses.length];
+      } else if (config.response_schema) {
+        json = sampleFromSchema(config.response_schema, (key) =>
+          parseInt(
+            crypto.createHash("sha256").update(`${digest}:${key}`).digest("hex").slice(0, 8),
+            16
+          )
+        );
+      } else {
+        const fields = config.response_fields || ["output"];
+        json = Object.fromEntries(
+          fields.map((field, index) => [
+            field,
+            `Fixture ${field.replace(/_/g, " ")} ${digest.slice(index * 8, index * 8 + 8)}`,
+          ])
+        );
+      }
+
+      // Rough 4-characters-per-token estimate so cost accounting has numbers
+      const text = JSON.stringify(json);
+      const prompt_tokens = Math.ceil(prompt.length / 4);
+      const output_tokens = Math.ceil(text.length / 4);
+      return {
+        json,
+        text,
+        usage: { prompt_tokens, output_tokens, total_tokens: prompt_tokens + output_tokens },
+      };
+    },
+  };
+};
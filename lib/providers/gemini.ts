@@ -0,0 +1,42 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { GenerationConfig, LLMProvider, parseJsonResponse } from "./types";
+import { toGeminiSchema } from "../output-schema";
+
+export const createGeminiProvider = (model: string): LLMProvider => {
+  if (!process.env.GOOGLE_API_KEY) {
+    console.error("⚠️  GOOGLE_API_KEY is not set in .env file");
+  }
+
+  const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || "");
+  const client = genAI.getGenerativeModel({ model });
+
+  return {
+    name: "gemini",
+    model,
+    generateJson: async (prompt: string, config: GenerationConfig) => {
+      const response = await client.generateContent({
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: {
+          responseMimeType: "application/json",
+          maxOutputTokens: config.max_output_tokens,
+          temperature: config.temperature,
+          ...(config.response_schema
+            ? { responseSchema: toGeminiSchema(config.response_schema) }
+            : {}),
+        },
+      });
+
+      const text = response.response.text();
+      const usage = response.response.usageMetadata;
+      return {
+        json: parseJsonResponse(text),
+        text,
+        usage: usage && {
+          prompt_tokens: usage.promptTokenCount || 0,
+          output_tokens: usage.candidatesTokenCount || 0,
+          total_tokens: usage.totalTokenCount || 0,
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,89 @@
+import { LLMProvider } from "./types";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openai-compatible";
+import { createFixtureProvider } from "./fixture";
+
+export * from "./types";
+
+// Provider registry keyed by the `ai_model` string callers send:
+//   "gemini-2.5-flash"        -> Gemini, model as given
+//   "openai:<model>"          -> OpenAI-compatible endpoint (OPENAI_COMPAT_BASE_URL)
+//   "fixture" / "echo"        -> deterministic offline provider
+// Families registered later are tried first, so a custom family can claim
+// ids that would otherwise fall through to a built-in one.
+
+type ProviderFactory = (model: string) => LLMProvider;
+
+interface ProviderFamily {
+  name: string;
+  // Decides whether an ai_model string belongs to this family
+  matches: (ai_model: string) => boolean;
+  // Model id to hand to the factory
+  modelFor: (ai_model: string) => string;
+  create: ProviderFactory;
+}
+
+const families: ProviderFamily[] = [];
+const instances = new Map<string, LLMProvider>();
+
+export const registerProvider = (family: ProviderFamily) => {
+  families.unshift(family);
+};
+
+registerProvider({
+  name: "gemini",
+  matches: (ai_model) => /^gemini[-:]/.test(ai_model),
+  modelFor: (ai_model) =>
+    ai_model.startsWith("gemini:") ? ai_model.slice("gemini:".length) : ai_model,
+  create: createGeminiProvider,
+});
+
+registerProvider({
+  name: "openai",
+  matches: (ai_model) => ai_model.startsWith("openai:"),
+  modelFor: (ai_model) => ai_model.slice("openai:".length),
+  create: createOpenAICompatibleProvider,
+});
+
+registerProvider({
+  name: "fixture",
+  matches: (ai_model) => /^(fixture|echo)(:|$)/.test(ai_model),
+  modelFor: (ai_model) => ai_model,
+  create: createFixtureProvider,
+});
+
+// Normalizes display names such as "Gemini 2.5 Flash" to "gemini-2.5-flash";
+// "family:model" ids are kept as-is since backend model ids can be case-sensitive
+const normalizeModelName = (ai_model: string) =>
+  ai_model.includes(":")
+    ? ai_model.trim()
+    : ai_model.trim().replace(/\s+/g, "-").toLowerCase();
+
+export const isSupportedModel = (ai_model: string) => {
+  const normalized = normalizeModelName(ai_model);
+  return families.some((family) => family.matches(normalized));
+};
+
+export const getProvider = (ai_model: string): LLMProvider => {
+  const normalized = normalizeModelName(ai_model);
+  const cached = instances.get(normalized);
+  if (cached) {
+    return cached;
+  }
+
+  const family = families.find((candidate) => candidate.matches(normalized));
+  if (!family) {
+    throw new Error(`Unsupported ai_model "${ai_model}"`);
+  }
+
+  const model = family.modelFor(normalized);
+  if (!model) {
+    throw new Error(`ai_model "${ai_model}" does not name a model`);
+  }
+
+  const provider = family.create(model);
+  instances.set(normalized, provider);
+  return provider;
+};
+
+export const listProviderFamilies = () => families.map((family) => family.name);
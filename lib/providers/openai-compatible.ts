@@ -0,0 +1,51 @@
+import axios from "axios";
+import { GenerationConfig, LLMProvider, parseJsonResponse } from "./types";
+
+// Any server implementing POST /chat/completions: OpenAI itself, vLLM,
+// llama.cpp's server, Ollama's OpenAI endpoint, ...
+export const createOpenAICompatibleProvider = (model: string): LLMProvider => {
+  const baseUrl = (
+    process.env.OPENAI_COMPAT_BASE_URL || "http://localhost:8080/v1"
+  ).replace(/\/+$/, "");
+  const apiKey = process.env.OPENAI_COMPAT_API_KEY;
+  const timeout = Number(process.env.OPENAI_COMPAT_TIMEOUT_MS) || 120000;
+
+  return {
+    name: "openai",
+    model,
+    generateJson: async (prompt: string, config: GenerationConfig) => {
+      const response = await axios.post(
+        `${baseUrl}/chat/completions`,
+        {
+          model,
+          messages: [{ role: "user", content: prompt }],
+          max_tokens: config.max_output_tokens,
+          temperature: config.temperature,
+          seed: config.seed,
+          response_format: config.response_schema
+            ? {
+                type: "json_schema",
+                json_schema: { name: "synthetic_record", schema: config.response_schema },
+              }
+            : { type: "json_object" },
+        },
+        {
+          timeout,
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        }
+      );
+
+      const text = response.data?.choices?.[0]?.message?.content || "";
+      const usage = response.data?.usage;
+      return {
+        json: parseJsonResponse(text),
+        text,
+        usage: usage && {
+          prompt_tokens: usage.prompt_tokens || 0,
+          output_tokens: usage.completion_tokens || 0,
+          total_tokens: usage.total_tokens || 0,
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,52 @@
+// Shared types for LLM providers. A provider turns a prompt plus a generation
+// config into a parsed JSON object; everything model-specific stays inside
+// the adapter.
+
+export interface GenerationConfig {
+  max_output_tokens: number;
+  temperature: number;
+  seed?: number;
+  // Keys the returned object is expected to have; used by the fixture provider
+  response_fields?: string[];
+  // JSON Schema the output must follow, passed to the model as a constraint
+  response_schema?: any;
+}
+
+// Token counts as reported by the backend (estimated by the fixture provider)
+export interface TokenUsage {
+  prompt_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+}
+
+export interface ProviderResponse {
+  json: any;
+  text: string;
+  usage?: TokenUsage;
+  // Served from the response cache; no tokens were spent on it
+  cached?: boolean;
+}
+
+export interface LLMProvider {
+  // Registry family, e.g. "gemini"
+  name: string;
+  // Model id sent to the backend
+  model: string;
+  generateJson(prompt: string, config: GenerationConfig): Promise<ProviderResponse>;
+}
+
+// Parses a model's text output as JSON, tolerating ```json fences
+export const parseJsonResponse = (text: string) => {
+  if (!text || !text.trim()) {
+    throw new Error("Empty response from model");
+  }
+  const unfenced = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  try {
+    return JSON.parse(unfenced);
+  } catch (error) {
+    throw new Error(`Model returned invalid JSON: ${(error as Error).message}`);
+  }
+};
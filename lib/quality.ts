@@ -0,0 +1,236 @@
+import { collectText } from "./privacy";
+import {
+  DEFAULT_DEDUP_OPTIONS,
+  tokenize,
+  shingles,
+  minhashSignature,
+  createLshIndex,
+} from "./similarity";
+import { listPromptTemplates } from "./prompt-templates";
+
+// Dataset quality and diversity metrics, computed locally over generated rows
+// or any dataset fetched from a content link.
+
+export interface LengthStats {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p90: number;
+  stddev: number;
+}
+
+export interface QualityMetrics {
+  row_count: number;
+  // Unique n-grams / total n-grams across all rows
+  distinct_1: number;
+  distinct_2: number;
+  distinct_3: number;
+  // Mean BLEU-4 of each row against the others; lower means more diverse
+  self_bleu: number | null;
+  self_bleu_sample: number;
+  // Words per row
+  length: LengthStats;
+  label_field: string | null;
+  label_distribution: Record<string, number>;
+  // Normalized entropy of the label distribution, 0 (one label) to 1 (uniform)
+  label_entropy: number | null;
+  verification_pass_rate: number | null;
+  // Rows that are near-duplicates of an earlier row
+  duplicate_rate: number;
+  computed_at: string;
+}
+
+// Self-BLEU is quadratic in the row count, so it runs on the first rows only
+const SELF_BLEU_MAX_ROWS = 100;
+const BLEU_MAX_N = 4;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+const ngramCounts = (tokens: string[], n: number) => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i <= tokens.length - n; i++) {
+    const gram = tokens.slice(i, i + n).join(" ");
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+};
+
+const distinctN = (texts: string[][], n: number) => {
+  const unique = new Set<string>();
+  let total = 0;
+  for (const tokens of texts) {
+    for (const [gram, count] of ngramCounts(tokens, n)) {
+      unique.add(gram);
+      total += count;
+    }
+  }
+  return total === 0 ? 0 : round(unique.size / total);
+};
+
+// Sentence BLEU with clipped n-gram precision, add-one smoothing for n > 1
+// and the brevity penalty against the closest reference length
+const sentenceBleu = (hypothesis: string[], references: string[][]) => {
+  if (hypothesis.length === 0 || references.length === 0) {
+    return 0;
+  }
+
+  let logPrecision = 0;
+  for (let n = 1; n <= BLEU_MAX_N; n++) {
+    const hypCounts = ngramCounts(hypothesis, n);
+    const maxRefCounts = new Map<string, number>();
+    for (const reference of references) {
+      for (const [gram, count] of ngramCounts(reference, n)) {
+        maxRefCounts.set(gram, Math.max(maxRefCounts.get(gram) || 0, count));
+      }
+    }
+
+    let matched = 0;
+    let total = 0;
+    for (const [gram, count] of hypCounts) {
+      matched += Math.min(count, maxRefCounts.get(gram) || 0);
+      total += count;
+    }
+    const precision = n === 1 ? (total === 0 ? 0 : matched / total) : (matched + 1) / (total + 1);
+    if (precision === 0) {
+      return 0;
+    }
+    logPrecision += Math.log(precision) / BLEU_MAX_N;
+  }
+
+  const closestRef = references
+    .map((reference) => reference.length)
+    .reduce((best, length) =>
+      Math.abs(length - hypothesis.length) < Math.abs(best - hypothesis.length) ? length : best
+    );
+  const brevity =
+    hypothesis.length >= closestRef ? 1 : Math.exp(1 - closestRef / hypothesis.length);
+
+  return brevity * Math.exp(logPrecision);
+};
+
+const selfBleu = (texts: string[][]) => {
+  const sample = texts.slice(0, SELF_BLEU_MAX_ROWS);
+  if (sample.length < 2) {
+    return { value: null, sample: sample.length };
+  }
+  const total = sample.reduce(
+    (sum, tokens, i) => sum + sentenceBleu(tokens, sample.filter((_, j) => j !== i)),
+    0
+  );
+  return { value: round(total / sample.length), sample: sample.length };
+};
+
+const lengthStats = (lengths: number[]): LengthStats => {
+  if (lengths.length === 0) {
+    return { min: 0, max: 0, mean: 0, median: 0, p90: 0, stddev: 0 };
+  }
+  const sorted = [...lengths].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length;
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: round(mean),
+    median: percentile(0.5),
+    p90: percentile(0.9),
+    stddev: round(Math.sqrt(variance)),
+  };
+};
+
+// Share of rows that are near duplicates of an earlier row. Uses an LSH
+// index, so a large fetched dataset isn't compared pair by pair.
+const duplicateRate = (texts: string[]) => {
+  const index = createLshIndex();
+  const threshold = DEFAULT_DEDUP_OPTIONS.batch_threshold;
+  let duplicates = 0;
+  for (const text of texts) {
+    const signature = minhashSignature(shingles(text, DEFAULT_DEDUP_OPTIONS.ngram_size));
+    if (index.hasNeighbour(signature, threshold)) {
+      duplicates++;
+    }
+    index.add(signature);
+  }
+  return texts.length === 0 ? 0 : round(duplicates / texts.length);
+};
+
+const outputOf = (row: any) =>
+  row && typeof row === "object" && row.synthetic_output !== undefined ? row.synthetic_output : row;
+
+// Without an explicit label field, use the first template label field the
+// rows carry
+const detectLabelField = (rows: any[]) => {
+  const candidates = listPromptTemplates().map((template) => template.label_field);
+  return (
+    candidates.find((field) =>
+      rows.some((row) => {
+        const output = outputOf(row);
+        return output && typeof output === "object" && output[field] !== undefined;
+      })
+    ) || null
+  );
+};
+
+export const computeQualityMetrics = (rows: any[], label_field?: string | null): QualityMetrics => {
+  const labelField = label_field || detectLabelField(rows);
+
+  const texts = rows.map((row) => {
+    const output = outputOf(row);
+    if (labelField && output && typeof output === "object" && !Array.isArray(output)) {
+      const { [labelField]: label, ...rest } = output;
+      return collectText(rest);
+    }
+    return collectText(output);
+  });
+  const tokens = texts.map(tokenize);
+
+  const label_distribution: Record<string, number> = {};
+  if (labelField) {
+    for (const row of rows) {
+      const label = outputOf(row)?.[labelField];
+      if (label !== undefined && label !== null && label !== "") {
+        const key = String(label).trim();
+        label_distribution[key] = (label_distribution[key] || 0) + 1;
+      }
+    }
+  }
+  const labelCounts = Object.values(label_distribution);
+  const labelTotal = labelCounts.reduce((sum, count) => sum + count, 0);
+  const label_entropy =
+    labelCounts.length === 0
+      ? null
+      : labelCounts.length === 1
+        ? 0
+        : round(
+            -labelCounts.reduce((sum, count) => {
+              const p = count / labelTotal;
+              return sum + p * Math.log(p);
+            }, 0) / Math.log(labelCounts.length)
+          );
+
+  const withStatus = rows.filter((row) => typeof row?.verification_status === "string");
+  const bleu = selfBleu(tokens);
+
+  return {
+    row_count: rows.length,
+    distinct_1: distinctN(tokens, 1),
+    distinct_2: distinctN(tokens, 2),
+    distinct_3: distinctN(tokens, 3),
+    self_bleu: bleu.value,
+    self_bleu_sample: bleu.sample,
+    length: lengthStats(tokens.map((words) => words.length)),
+    label_field: labelField,
+    label_distribution,
+    label_entropy,
+    verification_pass_rate:
+      withStatus.length === 0
+        ? null
+        : round(
+            withStatus.filter((row) => row.verification_status === "verified").length /
+              withStatus.length
+          ),
+    duplicate_rate: duplicateRate(texts),
+    computed_at: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,114 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { IdentifierType, detectIdentifiers } from "./privacy";
+
+// De-identification of caller input before it reaches a prompt, history or
+// Irys. Identifiers become typed placeholders ([NAME_1], [DATE_2], ...); the
+// same value always maps to the same placeholder within one redactor.
+
+export const REDACTABLE_TYPES: IdentifierType[] = [
+  "NAME",
+  "DATE",
+  "PHONE",
+  "MRN",
+  "EMAIL",
+  "ADDRESS",
+  "AGE",
+];
+
+export interface RedactionSummary {
+  applied: boolean;
+  replacements: number;
+  counts: Partial<Record<IdentifierType, number>>;
+}
+
+// Redactor shared across several texts so numbering stays consistent
+export const createRedactor = (types: IdentifierType[] = REDACTABLE_TYPES) => {
+  const byValue = new Map<string, string>();
+  // placeholder -> original value; the reversible, local-only part
+  const mapping: Record<string, string> = {};
+  const counters: Partial<Record<IdentifierType, number>> = {};
+  let replacements = 0;
+
+  const placeholderFor = (type: IdentifierType, value: string) => {
+    const key = `${type}:${value.toLowerCase().replace(/\s+/g, " ").trim()}`;
+    let placeholder = byValue.get(key);
+    if (!placeholder) {
+      counters[type] = (counters[type] || 0) + 1;
+      placeholder = `[${type}_${counters[type]}]`;
+      byValue.set(key, placeholder);
+      mapping[placeholder] = value;
+    }
+    return placeholder;
+  };
+
+  const redact = (text: string) => {
+    const spans = detectIdentifiers(text).filter((span) => types.includes(span.type));
+    let result = "";
+    let cursor = 0;
+    for (const span of spans) {
+      result += text.slice(cursor, span.start) + placeholderFor(span.type, span.value);
+      cursor = span.end;
+      replacements++;
+    }
+    return result + text.slice(cursor);
+  };
+
+  const summary = (): RedactionSummary => ({
+    applied: true,
+    replacements,
+    counts: { ...counters },
+  });
+
+  return { redact, mapping, summary };
+};
+
+export const parseRedactTypes = (value: any): IdentifierType[] | null => {
+  if (value === undefined) return REDACTABLE_TYPES;
+  if (!Array.isArray(value)) return null;
+  const types = value.map((type) => String(type).toUpperCase());
+  return types.every((type) => REDACTABLE_TYPES.includes(type as IdentifierType))
+    ? (types as IdentifierType[])
+    : null;
+};
+
+// --- Local-only reversal maps ---
+
+const REDACTION_MAPS_DIR = path.resolve(__dirname, "..", "redaction-maps");
+
+export interface RedactionMap {
+  mapping: Record<string, string>;
+  // Address allowed to reverse the map; maps saved without one can't be
+  // reversed
+  owner: string | null;
+}
+
+export const saveRedactionMap = (mapping: Record<string, string>, owner: string) => {
+  if (!fs.existsSync(REDACTION_MAPS_DIR)) {
+    fs.mkdirSync(REDACTION_MAPS_DIR, { recursive: true });
+  }
+  const map_id = crypto.randomUUID();
+  fs.writeFileSync(
+    path.join(REDACTION_MAPS_DIR, `${map_id}.json`),
+    JSON.stringify({ map_id, owner, created_at: new Date().toISOString(), mapping }),
+    { mode: 0o600 }
+  );
+  return map_id;
+};
+
+export const loadRedactionMap = (map_id: string): RedactionMap | null => {
+  // map ids are UUIDs; anything else could escape the directory
+  if (!/^[0-9a-f-]{36}$/i.test(map_id)) {
+    return null;
+  }
+  const file = path.join(REDACTION_MAPS_DIR, `${map_id}.json`);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  const stored = JSON.parse(fs.readFileSync(file, "utf-8"));
+  return { mapping: stored.mapping, owner: stored.owner ?? null };
+};
+
+export const reverseRedaction = (text: string, mapping: Record<string, string>) =>
+  text.replace(/\[[A-Z]+_\d+\]/g, (placeholder) => mapping[placeholder] ?? placeholder);
@@ -0,0 +1,217 @@
+import fs from "fs";
+import path from "path";
+import { GenerationConfig, LLMProvider, ProviderResponse } from "./providers";
+import { canonicalJson, sha256Hex } from "./signing";
+
+// Content-addressed cache of provider responses. The key is the SHA-256 of
+// the provider family, model, prompt and generation config (seed included),
+// so a re-run with the same seed gets the same responses without calling the
+// model. Entries are files under llm-cache/; they expire after a TTL and the
+// least recently used ones are evicted once the directory passes its size
+// limit.
+
+export interface ResponseCacheOptions {
+  enabled: boolean;
+  // Entries older than this are misses; defaults to LLM_CACHE_TTL_SECONDS
+  ttl_seconds?: number;
+}
+
+// Hit and miss counts for one run
+export interface ResponseCacheReport {
+  enabled: boolean;
+  ttl_seconds: number;
+  hits: number;
+  misses: number;
+}
+
+interface CacheEntry {
+  key: string;
+  provider: string;
+  model: string;
+  created_at: string;
+  response: ProviderResponse;
+}
+
+const CACHE_DIR = path.resolve(__dirname, "..", "llm-cache");
+
+export const DEFAULT_CACHE_TTL_SECONDS =
+  Number(process.env.LLM_CACHE_TTL_SECONDS) || 7 * 24 * 60 * 60;
+export const CACHE_MAX_BYTES = Number(process.env.LLM_CACHE_MAX_BYTES) || 256 * 1024 * 1024;
+
+export const DEFAULT_CACHE_OPTIONS: ResponseCacheOptions = {
+  enabled: process.env.LLM_CACHE === "true",
+};
+
+// Size and last use of each entry, read from disk on first use
+let index: Map<string, { bytes: number; used_at: number }> | null = null;
+let total_bytes = 0;
+const totals = { hits: 0, misses: 0, evictions: 0 };
+
+const loadIndex = () => {
+  if (index) {
+    return index;
+  }
+  index = new Map();
+  total_bytes = 0;
+  if (fs.existsSync(CACHE_DIR)) {
+    for (const name of fs.readdirSync(CACHE_DIR)) {
+      if (!name.endsWith(".json")) continue;
+      const stat = fs.statSync(path.join(CACHE_DIR, name));
+      index.set(name.slice(0, -".json".length), { bytes: stat.size, used_at: stat.mtimeMs });
+      total_bytes += stat.size;
+    }
+  }
+  return index;
+};
+
+const entryFile = (key: string) => path.join(CACHE_DIR, `${key}.json`);
+
+const removeEntry = (key: string) => {
+  const entry = loadIndex().get(key);
+  if (!entry) return;
+  index!.delete(key);
+  total_bytes -= entry.bytes;
+  fs.rmSync(entryFile(key), { force: true });
+};
+
+// Drops least recently used entries until the cache fits its size limit
+const evict = () => {
+  const entries = Array.from(loadIndex().entries()).sort((a, b) => a[1].used_at - b[1].used_at);
+  for (const [key] of entries) {
+    if (total_bytes <= CACHE_MAX_BYTES) break;
+    removeEntry(key);
+    totals.evictions++;
+  }
+};
+
+export const responseCacheKey = (
+  provider: Pick<LLMProvider, "name" | "model">,
+  prompt: string,
+  config: GenerationConfig
+) => sha256Hex(canonicalJson({ provider: provider.name, model: provider.model, prompt, config }));
+
+const readEntry = (key: string, ttl_seconds: number): ProviderResponse | null => {
+  if (!loadIndex().has(key)) {
+    return null;
+  }
+  try {
+    const entry: CacheEntry = JSON.parse(fs.readFileSync(entryFile(key), "utf-8"));
+    if (Date.now() - Date.parse(entry.created_at) > ttl_seconds * 1000) {
+      return null;
+    }
+    const now = new Date();
+    fs.utimesSync(entryFile(key), now, now);
+    index!.get(key)!.used_at = now.getTime();
+    return entry.response;
+  } catch {
+    // Unreadable or removed by hand; it is written again on the next miss
+    removeEntry(key);
+    return null;
+  }
+};
+
+const writeEntry = (key: string, provider: LLMProvider, response: ProviderResponse) => {
+  const body = JSON.stringify({
+    key,
+    provider: provider.name,
+    model: provider.model,
+    created_at: new Date().toISOString(),
+    response: { json: response.json, text: response.text, usage: response.usage },
+  } satisfies CacheEntry);
+  if (!fs.existsSync(CACHE_DIR)) {
+    fs.mkdirSync(CACHE_DIR, { recursive: true });
+  }
+  removeEntry(key);
+  const tmp = `${entryFile(key)}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, body);
+  fs.renameSync(tmp, entryFile(key));
+  index!.set(key, { bytes: Buffer.byteLength(body), used_at: Date.now() });
+  total_bytes += Buffer.byteLength(body);
+  evict();
+};
+
+// Removes the cached response for a call, e.g. when the cached answer turned
+// out to be unusable and must not be replayed to the next identical call
+export const evictCachedResponse = (
+  provider: Pick<LLMProvider, "name" | "model">,
+  prompt: string,
+  config: GenerationConfig
+) => removeEntry(responseCacheKey(provider, prompt, config));
+
+// Reads the request's `cache` field: a boolean, or { enabled, ttl_seconds }.
+// Throws on invalid values.
+export const parseCacheOptions = (value: any): ResponseCacheOptions => {
+  if (value === undefined || value === null) {
+    return DEFAULT_CACHE_OPTIONS;
+  }
+  if (value === true || value === false) {
+    return { enabled: value };
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("cache must be a boolean or an object");
+  }
+  const { enabled = true, ttl_seconds } = value;
+  if (typeof enabled !== "boolean") {
+    throw new Error("cache.enabled must be a boolean");
+  }
+  if (ttl_seconds !== undefined && !(Number.isInteger(ttl_seconds) && ttl_seconds > 0)) {
+    throw new Error("cache.ttl_seconds must be a positive integer");
+  }
+  return { enabled, ...(ttl_seconds !== undefined ? { ttl_seconds } : {}) };
+};
+
+// One run's view of the cache: wraps providers so their calls go through it
+// and counts hits and misses. Cached responses carry no usage, since no
+// tokens were spent on them.
+export const createCacheSession = (options: ResponseCacheOptions = DEFAULT_CACHE_OPTIONS) => {
+  const ttl_seconds = options.ttl_seconds ?? DEFAULT_CACHE_TTL_SECONDS;
+  const report: ResponseCacheReport = { enabled: options.enabled, ttl_seconds, hits: 0, misses: 0 };
+
+  return {
+    wrap: (provider: LLMProvider): LLMProvider =>
+      options.enabled
+        ? {
+            name: provider.name,
+            model: provider.model,
+            generateJson: async (prompt: string, config: GenerationConfig) => {
+              const key = responseCacheKey(provider, prompt, config);
+              const cached = readEntry(key, ttl_seconds);
+              if (cached) {
+                report.hits++;
+                totals.hits++;
+                return { json: cached.json, text: cached.text, cached: true };
+              }
+              report.misses++;
+              totals.misses++;
+              const response = await provider.generateJson(prompt, config);
+              try {
+                writeEntry(key, provider, response);
+              } catch (error) {
+                console.log(`  Response cache write failed: ${(error as Error).message}`);
+              }
+              return response;
+            },
+          }
+        : provider,
+
+    report: (): ResponseCacheReport => ({ ...report }),
+  };
+};
+
+// Whole-cache numbers for the admin route; hits and misses since startup
+export const cacheStats = () => ({
+  default_enabled: DEFAULT_CACHE_OPTIONS.enabled,
+  entries: loadIndex().size,
+  bytes: total_bytes,
+  max_bytes: CACHE_MAX_BYTES,
+  ttl_seconds: DEFAULT_CACHE_TTL_SECONDS,
+  ...totals,
+});
+
+export const clearResponseCache = () => {
+  const removed = loadIndex().size;
+  for (const key of Array.from(index!.keys())) {
+    removeEntry(key);
+  }
+  return removed;
+};
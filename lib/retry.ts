@@ -0,0 +1,106 @@
+// Retry helpers for LLM calls: exponential backoff with jitter on errors
+// that are worth retrying (rate limits, server errors, timeouts).
+
+export interface RetryOptions {
+  max_retries: number;
+  base_delay_ms: number;
+  max_delay_ms: number;
+  on_retry?: (attempt: number, delay_ms: number, error: unknown) => void;
+}
+
+export class RetryExhaustedError extends Error {
+  attempts: number;
+  cause: unknown;
+
+  constructor(attempts: number, cause: unknown) {
+    super(`${describeError(cause)} (after ${attempts} attempts)`);
+    this.name = "RetryExhaustedError";
+    this.attempts = attempts;
+    this.cause = cause;
+  }
+}
+
+export const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// HTTP status of a provider error, if it carries one
+export const getErrorStatus = (error: any): number | null => {
+  if (!error) return null;
+  if (typeof error.status === "number") return error.status;
+  if (typeof error.response?.status === "number") return error.response.status;
+  // The Gemini SDK puts the status in the message, e.g. "[429 Too Many Requests]"
+  const match = /\[(\d{3})[^\]]*\]/.exec(String(error.message || ""));
+  return match ? Number(match[1]) : null;
+};
+
+export const isRetryableError = (error: any) => {
+  const status = getErrorStatus(error);
+  if (status !== null) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  const text = `${error?.name || ""} ${error?.code || ""} ${error?.message || ""}`;
+  return /timeout|timed out|ETIMEDOUT|ECONNRESET|EAI_AGAIN|AbortError|fetch failed/i.test(
+    text
+  );
+};
+
+export const describeError = (error: any) => {
+  const status = getErrorStatus(error);
+  if (status === 429) return "Rate limited by provider (429)";
+  const message = error?.message || String(error);
+  return status ? `HTTP ${status}: ${message}` : message;
+};
+
+// Server-suggested delay (Gemini RetryInfo or a Retry-After header), if any
+const getSuggestedDelayMs = (error: any): number | null => {
+  const retryInfo = (error?.errorDetails || []).find((detail: any) =>
+    String(detail?.["@type"] || "").includes("RetryInfo")
+  );
+  if (retryInfo?.retryDelay) {
+    const seconds = parseFloat(retryInfo.retryDelay);
+    if (!isNaN(seconds)) return seconds * 1000;
+  }
+  const retryAfter = error?.response?.headers?.["retry-after"];
+  if (retryAfter && !isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000;
+  }
+  return null;
+};
+
+export const getBackoffDelayMs = (
+  attempt: number,
+  options: RetryOptions,
+  error?: unknown
+) => {
+  const exponential = Math.min(
+    options.max_delay_ms,
+    options.base_delay_ms * 2 ** attempt
+  );
+  // Equal jitter: half fixed, half random, so parallel workers spread out
+  const delay = exponential / 2 + Math.random() * (exponential / 2);
+  const suggested = getSuggestedDelayMs(error);
+  return Math.round(
+    suggested !== null ? Math.min(options.max_delay_ms, Math.max(delay, suggested)) : delay
+  );
+};
+
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!isRetryableError(error)) {
+        throw error;
+      }
+      if (attempt >= options.max_retries) {
+        throw new RetryExhaustedError(attempt + 1, error);
+      }
+      const delay = getBackoffDelayMs(attempt, options, error);
+      options.on_retry?.(attempt + 1, delay, error);
+      await sleep(delay);
+    }
+  }
+}
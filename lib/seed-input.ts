@@ -0,0 +1,147 @@
+import parseCsv from "csv-parse/lib/sync";
+
+// Seed records for a generation run: a single input_text, an array in the
+// request body, or an uploaded CSV/JSONL file with a chosen text column.
+// Seed i keeps index i for every row generated from it.
+
+export type SeedSource = "input_text" | "array" | "csv" | "jsonl";
+
+export interface SeedInput {
+  source: SeedSource;
+  texts: string[];
+  text_column?: string;
+  file_name?: string;
+}
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+export const MAX_SEED_RECORDS = Number(process.env.MAX_SEED_RECORDS) || 10000;
+export const MAX_VARIANTS_PER_SEED = 100;
+// Upper bound on seeds x variants_per_seed for one run
+export const MAX_GENERATION_ROWS = Number(process.env.MAX_GENERATION_ROWS) || 10000;
+export const MAX_SEED_FILE_BYTES = Number(process.env.MAX_SEED_FILE_BYTES) || 20 * 1024 * 1024;
+
+const DEFAULT_TEXT_COLUMN = "text";
+
+// Picks the text out of one record: a string, or an object's text column
+const seedText = (record: any, text_column: string, position: string) => {
+  const value =
+    typeof record === "string"
+      ? record
+      : record && typeof record === "object"
+        ? record[text_column]
+        : undefined;
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`${position} has no text in column "${text_column}"`);
+  }
+  return value;
+};
+
+const checkCount = (texts: string[]) => {
+  if (texts.length === 0) {
+    throw new Error("No seed records found");
+  }
+  if (texts.length > MAX_SEED_RECORDS) {
+    throw new Error(`At most ${MAX_SEED_RECORDS} seed records are allowed, got ${texts.length}`);
+  }
+  return texts;
+};
+
+export const parseSeedArray = (seeds: any[], text_column = DEFAULT_TEXT_COLUMN) =>
+  checkCount(seeds.map((record, index) => seedText(record, text_column, `seeds[${index}]`)));
+
+const isJsonl = (file: UploadedFile) =>
+  /\.(jsonl|ndjson)$/i.test(file.originalname) ||
+  /(jsonl|ndjson|x-ndjson)/i.test(file.mimetype);
+
+const isCsv = (file: UploadedFile) =>
+  /\.csv$/i.test(file.originalname) || /csv/i.test(file.mimetype);
+
+export const parseSeedFile = (
+  file: UploadedFile,
+  text_column = DEFAULT_TEXT_COLUMN
+): SeedInput => {
+  const content = file.buffer.toString("utf-8");
+
+  if (isJsonl(file)) {
+    const lines = content.split(/\r?\n/).filter((line) => line.trim() !== "");
+    const texts = lines.map((line, index) => {
+      let record: any;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`);
+      }
+      return seedText(record, text_column, `Line ${index + 1}`);
+    });
+    return { source: "jsonl", texts: checkCount(texts), text_column, file_name: file.originalname };
+  }
+
+  if (isCsv(file)) {
+    let records: Record<string, string>[];
+    try {
+      records = parseCsv(content, { columns: true, bom: true, skip_empty_lines: true });
+    } catch (error) {
+      throw new Error(`Invalid CSV: ${(error as Error).message}`);
+    }
+    if (records.length > 0 && !(text_column in records[0])) {
+      throw new Error(
+        `CSV has no column "${text_column}"; columns are: ${Object.keys(records[0]).join(", ")}`
+      );
+    }
+    const texts = records.map((record, index) =>
+      seedText(record, text_column, `CSV row ${index + 1}`)
+    );
+    return { source: "csv", texts: checkCount(texts), text_column, file_name: file.originalname };
+  }
+
+  throw new Error("Seed file must be CSV (.csv) or JSONL (.jsonl)");
+};
+
+// Seeds from an uploaded file, then a `seeds` array, then `input_text`.
+// Null when the request has none of them. Throws on invalid input.
+export const readSeedInput = (body: any, file?: UploadedFile): SeedInput | null => {
+  const text_column = body.text_column || DEFAULT_TEXT_COLUMN;
+  if (file) {
+    return parseSeedFile(file, text_column);
+  }
+  if (body.seeds !== undefined) {
+    if (!Array.isArray(body.seeds)) {
+      throw new Error("seeds must be an array of strings or objects");
+    }
+    return { source: "array", texts: parseSeedArray(body.seeds, text_column), text_column };
+  }
+  if (typeof body.input_text === "string" && body.input_text !== "") {
+    return { source: "input_text", texts: [body.input_text] };
+  }
+  return null;
+};
+
+export const parseVariantsPerSeed = (value: any) => {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  const variants = Number(value);
+  if (!Number.isInteger(variants) || variants <= 0 || variants > MAX_VARIANTS_PER_SEED) {
+    throw new Error(`variants_per_seed must be an integer between 1 and ${MAX_VARIANTS_PER_SEED}`);
+  }
+  return variants;
+};
+
+export const seedInputMetadata = (seeds: SeedInput, variants_per_seed: number) => ({
+  source: seeds.source,
+  seed_count: seeds.texts.length,
+  variants_per_seed,
+  ...(seeds.text_column ? { text_column: seeds.text_column } : {}),
+  ...(seeds.file_name ? { file_name: seeds.file_name } : {}),
+});
+
+// One entry per row to generate, seed-major: seed 0's variants come first
+export const expandSeeds = (texts: string[], variants_per_seed: number) =>
+  texts.flatMap((text, seed_index) =>
+    Array.from({ length: variants_per_seed }, () => ({ text, seed_index }))
+  );
@@ -0,0 +1,134 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+
+// EIP-191 signatures over canonical JSON, so anyone holding a row or dataset
+// manifest can recover the signer address without trusting the gateway.
+
+const SIGNATURE_FIELDS = ["signature", "signer"];
+
+// Stable encoding: object keys sorted, no whitespace. Arrays keep their order.
+export const canonicalJson = (value: any): string => {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value === undefined ? null : value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(",")}]`;
+  }
+  const entries = Object.keys(value)
+    .filter((key) => value[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+  return `{${entries.join(",")}}`;
+};
+
+export const sha256Hex = (data: string | Buffer) =>
+  crypto.createHash("sha256").update(data).digest("hex");
+
+// The bytes a row signature covers: the row without its signature fields
+export const rowSigningPayload = (row: Record<string, any>) => {
+  const unsigned = { ...row };
+  for (const field of SIGNATURE_FIELDS) {
+    delete unsigned[field];
+  }
+  return canonicalJson(unsigned);
+};
+
+let signingWallet: ethers.Wallet | null | undefined;
+
+// SIGNING_PRIVATE_KEY, falling back to the server's PRIVATE_KEY. Null when
+// neither is set, in which case rows go out unsigned.
+export const getSigningWallet = () => {
+  if (signingWallet === undefined) {
+    const key = process.env.SIGNING_PRIVATE_KEY || process.env.PRIVATE_KEY;
+    signingWallet = null;
+    if (key) {
+      try {
+        signingWallet = new ethers.Wallet(key.startsWith("0x") ? key : `0x${key}`);
+      } catch (error) {
+        console.error(`⚠️  Invalid signing key: ${(error as Error).message}`);
+      }
+    } else {
+      console.error("⚠️  SIGNING_PRIVATE_KEY is not set; rows will not be signed");
+    }
+  }
+  return signingWallet;
+};
+
+export const getSignerAddress = () => getSigningWallet()?.address || null;
+
+export const signRow = <T extends Record<string, any>>(row: T) => {
+  const wallet = getSigningWallet();
+  if (!wallet) {
+    return { ...row, signature: "" };
+  }
+  const signature = wallet.signMessageSync(rowSigningPayload(row));
+  return { ...row, signature, signer: wallet.address };
+};
+
+export interface SignatureCheck {
+  valid: boolean;
+  signer: string | null;
+  error?: string;
+}
+
+export const verifySignature = (
+  payload: string,
+  signature: string,
+  expected_signer?: string | null
+): SignatureCheck => {
+  if (!signature) {
+    return { valid: false, signer: null, error: "Missing signature" };
+  }
+  try {
+    const signer = ethers.verifyMessage(payload, signature);
+    if (expected_signer && signer.toLowerCase() !== expected_signer.toLowerCase()) {
+      return {
+        valid: false,
+        signer,
+        error: `Signed by ${signer}, expected ${expected_signer}`,
+      };
+    }
+    return { valid: true, signer };
+  } catch (error) {
+    return { valid: false, signer: null, error: (error as Error).message };
+  }
+};
+
+export const verifyRowSignature = (row: Record<string, any>, expected_signer?: string | null) =>
+  verifySignature(rowSigningPayload(row), row.signature, expected_signer || row.signer);
+
+export interface DatasetManifest {
+  content_hash: string;
+  // "merkle-sha256" when content_hash is the Merkle root of a chunked
+  // dataset; a plain SHA-256 of the content otherwise
+  content_hash_scheme?: string;
+  row_count: number;
+  verified_rows: number;
+  signer: string | null;
+  signed_at: string;
+}
+
+// Manifest for an uploaded dataset: ties the content hash to a signer.
+// Chunked datasets pass their Merkle root instead of the content.
+export const buildSignedManifest = (
+  content: string | Buffer | { merkle_root: string },
+  rows: { verification_status: string }[]
+) => {
+  const manifest: DatasetManifest = {
+    ...(typeof content === "object" && "merkle_root" in content
+      ? { content_hash: content.merkle_root, content_hash_scheme: "merkle-sha256" }
+      : { content_hash: "0x" + sha256Hex(content) }),
+    row_count: rows.length,
+    verified_rows: rows.filter((row) => row.verification_status === "verified").length,
+    signer: getSignerAddress(),
+    signed_at: new Date().toISOString(),
+  };
+  const wallet = getSigningWallet();
+  return {
+    manifest,
+    manifest_signature: wallet ? wallet.signMessageSync(canonicalJson(manifest)) : "",
+  };
+};
+
+export const verifyManifest = (manifest: DatasetManifest, signature: string) =>
+  verifySignature(canonicalJson(manifest), signature, manifest.signer);
@@ -0,0 +1,248 @@
+import crypto from "crypto";
+
+// Near-duplicate detection for generated rows. Texts are reduced to word
+// n-gram shingles and compared with MinHash signatures, which estimate the
+// Jaccard similarity of the shingle sets.
+
+export interface DedupOptions {
+  enabled: boolean;
+  ngram_size: number;
+  // Rows at or above this similarity to the source text are rejected as copies
+  source_threshold: number;
+  // Rows at or above this similarity to an accepted row are rejected as duplicates
+  batch_threshold: number;
+  // Regenerate rejected rows until sample_size unique rows exist
+  regenerate: boolean;
+  max_rounds: number;
+}
+
+export const DEFAULT_DEDUP_OPTIONS: DedupOptions = {
+  enabled: process.env.DEDUP_ENABLED !== "false",
+  ngram_size: 3,
+  source_threshold: Number(process.env.DEDUP_SOURCE_THRESHOLD) || 0.8,
+  batch_threshold: Number(process.env.DEDUP_BATCH_THRESHOLD) || 0.7,
+  regenerate: true,
+  max_rounds: 3,
+};
+
+const NUM_HASHES = 128;
+
+const isRatio = (value: any) => typeof value === "number" && value > 0 && value <= 1;
+
+// Reads the request's `dedup` field: false turns the filter off, an object
+// overrides individual options. Throws on invalid values.
+export const parseDedupOptions = (value: any): DedupOptions => {
+  if (value === undefined || value === null || value === true) {
+    return DEFAULT_DEDUP_OPTIONS;
+  }
+  if (value === false) {
+    return { ...DEFAULT_DEDUP_OPTIONS, enabled: false };
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("dedup must be a boolean or an object");
+  }
+
+  const options = { ...DEFAULT_DEDUP_OPTIONS, enabled: true, ...value };
+  if (!isRatio(options.source_threshold) || !isRatio(options.batch_threshold)) {
+    throw new Error("dedup thresholds must be numbers in (0, 1]");
+  }
+  if (!Number.isInteger(options.ngram_size) || options.ngram_size < 1 || options.ngram_size > 10) {
+    throw new Error("dedup.ngram_size must be an integer between 1 and 10");
+  }
+  if (!Number.isInteger(options.max_rounds) || options.max_rounds < 0 || options.max_rounds > 10) {
+    throw new Error("dedup.max_rounds must be an integer between 0 and 10");
+  }
+  return {
+    enabled: !!options.enabled,
+    ngram_size: options.ngram_size,
+    source_threshold: options.source_threshold,
+    batch_threshold: options.batch_threshold,
+    regenerate: !!options.regenerate,
+    max_rounds: options.max_rounds,
+  };
+};
+
+// Lowercased word tokens; punctuation is dropped
+export const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+export const shingles = (text: string, n: number) => {
+  const words = tokenize(text);
+  const result = new Set<string>();
+  if (words.length < n) {
+    if (words.length > 0) result.add(words.join(" "));
+    return result;
+  }
+  for (let i = 0; i <= words.length - n; i++) {
+    result.add(words.slice(i, i + n).join(" "));
+  }
+  return result;
+};
+
+// One sha1 per shingle; the k-th hash is h1 + k * h2 (double hashing)
+export const minhashSignature = (shingleSet: Set<string>) => {
+  const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  for (const shingle of shingleSet) {
+    const digest = crypto.createHash("sha1").update(shingle).digest();
+    const h1 = digest.readUInt32BE(0);
+    const h2 = digest.readUInt32BE(4) | 1;
+    for (let k = 0; k < NUM_HASHES; k++) {
+      const value = (h1 + Math.imul(k, h2)) >>> 0;
+      if (value < signature[k]) signature[k] = value;
+    }
+  }
+  return signature;
+};
+
+export const estimateSimilarity = (a: number[], b: number[], emptyA = false, emptyB = false) => {
+  if (emptyA || emptyB) {
+    return emptyA && emptyB ? 1 : 0;
+  }
+  let equal = 0;
+  for (let k = 0; k < NUM_HASHES; k++) {
+    if (a[k] === b[k]) equal++;
+  }
+  return equal / NUM_HASHES;
+};
+
+// Locality-sensitive hashing over MinHash signatures, for finding near
+// duplicates in a large set without comparing every pair. Signatures are cut
+// into bands; only signatures that share a band are compared. With 32 bands
+// of 4 hashes a pair at 0.7 similarity shares a band with probability above
+// 0.999.
+export const createLshIndex = (bands = 32) => {
+  const rows = NUM_HASHES / bands;
+  const buckets = Array.from({ length: bands }, () => new Map<string, number[]>());
+  const signatures: number[][] = [];
+  const bandKeys = (signature: number[]) =>
+    buckets.map((_, band) => signature.slice(band * rows, (band + 1) * rows).join(","));
+
+  // Ids, in the order they were added, of indexed signatures that share a
+  // band with this one
+  const candidates = (signature: number[]) => {
+    const found = new Set<number>();
+    bandKeys(signature).forEach((key, band) => {
+      for (const id of buckets[band].get(key) || []) {
+        found.add(id);
+      }
+    });
+    return Array.from(found);
+  };
+
+  return {
+    candidates,
+    // Whether an indexed signature is at least `threshold` similar
+    hasNeighbour: (signature: number[], threshold: number) =>
+      candidates(signature).some(
+        (id) => estimateSimilarity(signature, signatures[id]) >= threshold
+      ),
+    add: (signature: number[]) => {
+      const id = signatures.push(signature) - 1;
+      bandKeys(signature).forEach((key, band) => {
+        const bucket = buckets[band].get(key);
+        if (bucket) {
+          bucket.push(id);
+        } else {
+          buckets[band].set(key, [id]);
+        }
+      });
+    },
+  };
+};
+
+export interface SimilarityScore {
+  source: number;
+  // Highest similarity to a row accepted earlier in the batch. Only rows
+  // that share an LSH band are compared, so a low score can read as 0.
+  batch: number;
+}
+
+export type DedupDecision =
+  | { accepted: true; score: SimilarityScore }
+  | { accepted: false; score: SimilarityScore; reason: "source" | "duplicate" };
+
+export interface DedupReport {
+  enabled: boolean;
+  method: "minhash";
+  ngram_size: number;
+  source_threshold: number;
+  batch_threshold: number;
+  rows_checked: number;
+  accepted: number;
+  rejected_source: number;
+  rejected_duplicate: number;
+  // Replacement rows accepted after regeneration
+  regenerated: number;
+  rounds: number;
+  // Slots still empty once regeneration gave up
+  unfilled: number;
+}
+
+// Scores rows one at a time against the source and the rows accepted so far.
+// Call order decides which of two near-duplicates is kept. Accepted rows are
+// kept in an LSH index, so a row is only compared with the few that could be
+// near duplicates.
+export const createDedupFilter = (options: DedupOptions) => {
+  const sourceSignatures = new Map<string, { signature: number[]; empty: boolean }>();
+  // In the order they were added to acceptedIndex, so its ids are positions here
+  const accepted: { signature: number[]; empty: boolean }[] = [];
+  const acceptedIndex = createLshIndex();
+  const report: DedupReport = {
+    enabled: options.enabled,
+    method: "minhash",
+    ngram_size: options.ngram_size,
+    source_threshold: options.source_threshold,
+    batch_threshold: options.batch_threshold,
+    rows_checked: 0,
+    accepted: 0,
+    rejected_source: 0,
+    rejected_duplicate: 0,
+    regenerated: 0,
+    rounds: 0,
+    unfilled: 0,
+  };
+
+  const signatureOf = (text: string) => {
+    const set = shingles(text, options.ngram_size);
+    return { signature: minhashSignature(set), empty: set.size === 0 };
+  };
+
+  const check = (source_text: string, text: string): DedupDecision => {
+    if (!sourceSignatures.has(source_text)) {
+      sourceSignatures.set(source_text, signatureOf(source_text));
+    }
+    const source = sourceSignatures.get(source_text)!;
+    const row = signatureOf(text);
+
+    const score: SimilarityScore = {
+      source: estimateSimilarity(row.signature, source.signature, row.empty, source.empty),
+      batch: acceptedIndex.candidates(row.signature).reduce((max, id) => {
+        const other = accepted[id];
+        return Math.max(
+          max,
+          estimateSimilarity(row.signature, other.signature, row.empty, other.empty)
+        );
+      }, 0),
+    };
+
+    report.rows_checked++;
+    if (!options.enabled) {
+      report.accepted++;
+      return { accepted: true, score };
+    }
+    if (score.source >= options.source_threshold) {
+      report.rejected_source++;
+      return { accepted: false, score, reason: "source" };
+    }
+    if (score.batch >= options.batch_threshold) {
+      report.rejected_duplicate++;
+      return { accepted: false, score, reason: "duplicate" };
+    }
+
+    accepted.push(row);
+    acceptedIndex.add(row.signature);
+    report.accepted++;
+    return { accepted: true, score };
+  };
+
+  return { check, report };
+};
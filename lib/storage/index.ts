@@ -0,0 +1,123 @@
+import { sha256Hex } from "../signing";
+import { PutResult, StorageBackend, StorageTag } from "./types";
+import { createIrysStorage } from "./irys";
+import { createLocalStorage } from "./local";
+import { findUpload, recordUpload, markReused, forgetUpload } from "./upload-index";
+
+export * from "./types";
+
+// Storage backend registry. STORAGE_BACKEND picks the backend every route
+// and script publishes to:
+//   "irys"  (default) -> Irys, paid uploads, gateway URLs
+//   "local"           -> content-addressed files served by the API
+
+type StorageFactory = () => StorageBackend;
+
+const factories = new Map<string, StorageFactory>();
+let active: StorageBackend | null = null;
+
+export const registerStorageBackend = (name: string, create: StorageFactory) => {
+  factories.set(name, create);
+};
+
+registerStorageBackend("irys", createIrysStorage);
+registerStorageBackend("local", () => createLocalStorage());
+
+export const STORAGE_BACKEND = process.env.STORAGE_BACKEND || "irys";
+
+export const getStorage = (): StorageBackend => {
+  if (active) {
+    return active;
+  }
+  const create = factories.get(STORAGE_BACKEND);
+  if (!create) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND "${STORAGE_BACKEND}"; expected one of: ${listStorageBackends().join(", ")}`
+    );
+  }
+  active = create();
+  return active;
+};
+
+export const listStorageBackends = () => Array.from(factories.keys());
+
+// Uploads of the same bytes that are still running, so a concurrent repeat
+// waits for the first instead of paying twice
+const inflight = new Map<string, Promise<PutResult>>();
+
+const reusedResult = (
+  result: { id: string; url: string; stored_at?: string },
+  bytes: number
+): PutResult => ({
+  id: result.id,
+  url: result.url,
+  cost: { bytes, price_wei: "0", funded_wei: "0" },
+  deduplicated: true,
+  stored_at: result.stored_at,
+});
+
+// Stores a payload: Buffers and strings as-is, anything else as JSON. Bytes
+// the active backend already holds, per the upload index, are not uploaded
+// again; the earlier receipt comes back with deduplicated set.
+//
+// Only the bytes are compared, not the tags. A repeat with different tags gets
+// the first upload's object, tags included, so anything that should tell two
+// uploads apart has to be in the payload itself.
+export const putObject = async (data: any, tags: StorageTag[]): Promise<PutResult> => {
+  const storage = getStorage();
+  const body = Buffer.from(
+    Buffer.isBuffer(data) || typeof data === "string" ? data : JSON.stringify(data)
+  );
+  const sha256 = sha256Hex(body);
+
+  const receipt = findUpload(storage.name, sha256);
+  if (receipt) {
+    if (!storage.has || (await storage.has(receipt.id))) {
+      markReused(receipt);
+      console.log(`Already stored, reusing ${receipt.url}`);
+      return reusedResult({ ...receipt, stored_at: receipt.created_at }, body.length);
+    }
+    forgetUpload(storage.name, sha256);
+  }
+
+  const key = `${storage.name}:${sha256}`;
+  const running = inflight.get(key);
+  if (running) {
+    return reusedResult(await running, body.length);
+  }
+  const upload = storage
+    .put(body, tags)
+    .then((result): PutResult => {
+      const recorded = recordUpload({
+        backend: storage.name,
+        sha256,
+        id: result.id,
+        url: result.url,
+        bytes: body.length,
+        price_wei: result.cost.price_wei,
+      });
+      return { ...result, stored_at: recorded.created_at };
+    })
+    .finally(() => inflight.delete(key));
+  inflight.set(key, upload);
+  return upload;
+};
+
+// Bytes behind a dataset link. Links to the active backend are read through
+// it; any other URL is fetched over HTTP.
+export const fetchObject = async (url: string) => {
+  const storage = getStorage();
+  const id = storage.idFromUrl(url);
+  if (id) {
+    const { data, content_type } = await storage.get(id);
+    return { data, content_type };
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch from ${url}`);
+  }
+  return {
+    data: Buffer.from(await response.arrayBuffer()),
+    content_type: response.headers.get("content-type"),
+  };
+};
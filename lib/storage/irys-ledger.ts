@@ -0,0 +1,188 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Local record of every transaction that moves the server wallet's balance on
+// the Irys node, and the spend caps checked against it. Funding counts as
+// spend, whether an upload triggered it or an operator pre-funded; withdrawals
+// are recorded but don't give budget back. Caps are per UTC day and month:
+//   IRYS_DAILY_CAP_WEI, IRYS_MONTHLY_CAP_WEI  (unset = no cap)
+
+export type LedgerEntryType = "fund" | "withdraw";
+
+export interface LedgerEntry {
+  id: string;
+  type: LedgerEntryType;
+  amount_wei: string;
+  // Withdrawals: fee charged by the node
+  fee_wei?: string;
+  tx_id: string;
+  // "upload" when funded automatically before an upload, else "manual"
+  reason: "upload" | "manual";
+  // Uploads: size of the payload the funding paid for
+  bytes?: number;
+  network: string;
+  created_at: string;
+}
+
+export type BudgetWindow = "daily" | "monthly";
+
+export class IrysBudgetError extends Error {
+  constructor(
+    public window: BudgetWindow,
+    public cap_wei: string,
+    public spent_wei: string,
+    public requested_wei: string
+  ) {
+    super(
+      `Irys ${window} spend cap of ${cap_wei} wei would be exceeded: ` +
+        `${spent_wei} wei spent, ${requested_wei} wei requested`
+    );
+    this.name = "IrysBudgetError";
+  }
+}
+
+const LEDGER_FILE = path.resolve(__dirname, "..", "..", "irys-ledger.jsonl");
+
+// Problems with the configured caps. A malformed cap doesn't stop the server
+// from starting, but no funding goes through until it is fixed: reading it as
+// "no cap" would let uploads spend without limit.
+const CAP_ERRORS: string[] = [];
+
+const parseCap = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    return null;
+  }
+  if (!/^\d+$/.test(value)) {
+    CAP_ERRORS.push(`${name} must be an amount in wei`);
+    console.error(`${name} must be an amount in wei; Irys funding is disabled`);
+    return null;
+  }
+  return BigInt(value);
+};
+
+export const SPEND_CAPS: Record<BudgetWindow, bigint | null> = {
+  daily: parseCap("IRYS_DAILY_CAP_WEI"),
+  monthly: parseCap("IRYS_MONTHLY_CAP_WEI"),
+};
+
+let entries: LedgerEntry[] | null = null;
+// Funding that has been approved but whose transaction hasn't settled, so
+// concurrent uploads can't both squeeze under the cap
+let pending = BigInt(0);
+
+const loadLedger = () => {
+  if (entries) {
+    return entries;
+  }
+  entries = fs.existsSync(LEDGER_FILE)
+    ? fs
+        .readFileSync(LEDGER_FILE, "utf-8")
+        .split("\n")
+        .filter((line) => line.trim() !== "")
+        .map((line) => JSON.parse(line))
+    : [];
+  return entries!;
+};
+
+export const recordLedgerEntry = (entry: Omit<LedgerEntry, "id" | "created_at">) => {
+  const recorded: LedgerEntry = {
+    id: crypto.randomUUID(),
+    ...entry,
+    created_at: new Date().toISOString(),
+  };
+  loadLedger().push(recorded);
+  fs.appendFileSync(LEDGER_FILE, JSON.stringify(recorded) + "\n");
+  return recorded;
+};
+
+// Newest first
+export const readLedger = (limit = 100, type?: LedgerEntryType) =>
+  loadLedger()
+    .filter((entry) => !type || entry.type === type)
+    .slice(-limit)
+    .reverse();
+
+// ISO prefix shared by every timestamp in the current window
+const windowPrefix = (window: BudgetWindow, now = new Date()) =>
+  now.toISOString().slice(0, window === "daily" ? 10 : 7);
+
+const windowResetsAt = (window: BudgetWindow, now = new Date()) =>
+  new Date(
+    window === "daily"
+      ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+      : Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+  ).toISOString();
+
+const spentIn = (window: BudgetWindow) => {
+  const prefix = windowPrefix(window);
+  return loadLedger()
+    .filter((entry) => entry.type === "fund" && entry.created_at.startsWith(prefix))
+    .reduce((sum, entry) => sum + BigInt(entry.amount_wei), BigInt(0));
+};
+
+export const budgetStatus = () =>
+  (Object.keys(SPEND_CAPS) as BudgetWindow[]).reduce(
+    (status, window) => {
+      const cap = SPEND_CAPS[window];
+      const spent = spentIn(window);
+      status[window] = {
+        cap_wei: cap === null ? null : cap.toString(),
+        spent_wei: spent.toString(),
+        pending_wei: pending.toString(),
+        remaining_wei:
+          cap === null
+            ? null
+            : (cap > spent + pending ? cap - spent - pending : BigInt(0)).toString(),
+        resets_at: windowResetsAt(window),
+      };
+      return status;
+    },
+    {} as Record<
+      BudgetWindow,
+      {
+        cap_wei: string | null;
+        spent_wei: string;
+        pending_wei: string;
+        remaining_wei: string | null;
+        resets_at: string;
+      }
+    >
+  );
+
+// Throws IrysBudgetError when funding `amount` would pass a cap
+export const assertWithinBudget = (amount: bigint) => {
+  if (CAP_ERRORS.length > 0) {
+    throw new Error(`Irys funding is disabled: ${CAP_ERRORS.join("; ")}`);
+  }
+  for (const window of Object.keys(SPEND_CAPS) as BudgetWindow[]) {
+    const cap = SPEND_CAPS[window];
+    const spent = spentIn(window) + pending;
+    if (cap !== null && spent + amount > cap) {
+      throw new IrysBudgetError(window, cap.toString(), spent.toString(), amount.toString());
+    }
+  }
+};
+
+// Runs a funding transaction inside the budget: checks the caps, holds the
+// amount while the transaction is in flight and records it once it settles
+export const fundWithinBudget = async (
+  amount: bigint,
+  details: { reason: LedgerEntry["reason"]; network: string; bytes?: number },
+  fund: () => Promise<{ id: string; quantity?: string }>
+) => {
+  assertWithinBudget(amount);
+  pending += amount;
+  try {
+    const response = await fund();
+    return recordLedgerEntry({
+      type: "fund",
+      amount_wei: response.quantity || amount.toString(),
+      tx_id: response.id,
+      ...details,
+    });
+  } finally {
+    pending -= amount;
+  }
+};
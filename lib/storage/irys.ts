@@ -0,0 +1,165 @@
+import Irys from "@irys/sdk";
+import axios from "axios";
+import { StorageBackend, StorageNotFoundError, StorageTag } from "./types";
+import { fundWithinBudget, IrysBudgetError, recordLedgerEntry } from "./irys-ledger";
+
+// Permanent storage on Irys. Uploads are paid in ETH from PRIVATE_KEY's
+// balance on the Irys node, which is topped up by the price of an upload
+// whenever it runs short, as long as the spend caps in irys-ledger allow it.
+
+export const IRYS_GATEWAY = (process.env.IRYS_GATEWAY_URL || "https://gateway.irys.xyz").replace(
+  /\/+$/,
+  ""
+);
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+export const IRYS_NETWORK = process.env.IRYS_NETWORK || "devnet"; // "mainnet" for production
+
+export const getIrysClient = async () => {
+  const providerUrl = process.env.INFURA_RPC; // e.g., from Infura or Alchemy
+
+  if (!providerUrl) {
+    throw new Error("INFURA_RPC is not set in the .env file");
+  }
+
+  return new Irys({
+    network: IRYS_NETWORK,
+    token: "ethereum",
+    key: process.env.PRIVATE_KEY,
+    config: { providerUrl },
+  });
+};
+
+export const createIrysStorage = (): StorageBackend => {
+  const urlFor = (id: string) => `${IRYS_GATEWAY}/${id}`;
+
+  return {
+    name: "irys",
+    urlFor,
+
+    idFromUrl: (url: string) => {
+      const id = url.startsWith(`${IRYS_GATEWAY}/`) ? url.slice(IRYS_GATEWAY.length + 1) : null;
+      return id && /^[\w-]+$/.test(id) ? id : null;
+    },
+
+    quote: async (bytes: number) => {
+      const irys = await getIrysClient();
+      return (await irys.getPrice(bytes)).toString();
+    },
+
+    put: async (data: Buffer | string, tags: StorageTag[]) => {
+      const irys = await getIrysClient();
+      try {
+        const bytes = Buffer.byteLength(data);
+        console.log(`Data size: ${bytes} bytes`);
+
+        const price = await irys.getPrice(bytes);
+        console.log(`Upload price: ${price} wei`);
+
+        // Check balance before funding
+        const balance = await irys.getLoadedBalance();
+        console.log(`Current balance: ${balance} wei`);
+
+        let funded = "0";
+        if (balance.lt(price)) {
+          console.log(`Funding required: ${price.toString()} wei`);
+          const entry = await fundWithinBudget(
+            BigInt(price.toFixed(0)),
+            { reason: "upload", network: IRYS_NETWORK, bytes },
+            () => irys.fund(price)
+          );
+          funded = entry.amount_wei;
+        } else {
+          console.log("Sufficient balance, skipping funding");
+        }
+
+        const receipt = await irys.upload(data, { tags });
+        console.log(`Data uploaded successfully. ${urlFor(receipt.id)}`);
+        return {
+          id: receipt.id,
+          url: urlFor(receipt.id),
+          cost: { bytes, price_wei: price.toString(), funded_wei: funded },
+        };
+      } catch (e) {
+        if (e instanceof IrysBudgetError) {
+          throw e;
+        }
+        console.log("Error uploading data ", e);
+        throw new Error(`Irys upload failed: ${(e as Error).message}`);
+      }
+    },
+
+    // The gateway serves the bytes with their Content-Type tag; other tags
+    // are not returned
+    get: async (id: string) => {
+      const response = await axios.get(urlFor(id), {
+        responseType: "arraybuffer",
+        timeout: REQUEST_TIMEOUT_MS,
+        validateStatus: (status) => status < 500,
+      });
+      if (response.status === 404) {
+        throw new StorageNotFoundError(id);
+      }
+      if (response.status >= 400) {
+        throw new Error(`Irys gateway returned ${response.status} for ${id}`);
+      }
+      const content_type = response.headers["content-type"] || null;
+      return {
+        data: Buffer.from(response.data),
+        content_type,
+        tags: content_type ? [{ name: "Content-Type", value: content_type }] : [],
+      };
+    },
+  };
+};
+
+// Loaded balance of the server wallet on the Irys node
+export const getIrysBalance = async () => {
+  const irys = await getIrysClient();
+  const balance = await irys.getLoadedBalance();
+  return {
+    address: irys.address,
+    network: IRYS_NETWORK,
+    token: irys.token,
+    balance_wei: balance.toFixed(0),
+    balance: irys.utils.fromAtomic(balance).toString(),
+  };
+};
+
+// Price of `bytes` bytes next to the loaded balance
+export const quoteIrys = async (bytes: number) => {
+  const irys = await getIrysClient();
+  const [price, balance] = await Promise.all([irys.getPrice(bytes), irys.getLoadedBalance()]);
+  return {
+    bytes,
+    price_wei: price.toFixed(0),
+    price: irys.utils.fromAtomic(price).toString(),
+    balance_wei: balance.toFixed(0),
+    needs_funding: balance.lt(price),
+  };
+};
+
+// Pre-funds the node balance; counts against the spend caps
+export const fundIrys = async (amount_wei: bigint) => {
+  const irys = await getIrysClient();
+  return fundWithinBudget(amount_wei, { reason: "manual", network: IRYS_NETWORK }, () =>
+    irys.fund(amount_wei.toString())
+  );
+};
+
+// Moves unused node balance back to the server wallet
+export const withdrawIrys = async (amount_wei: bigint | "all") => {
+  const irys = await getIrysClient();
+  const response = await irys.withdrawBalance(
+    amount_wei === "all" ? "all" : amount_wei.toString()
+  );
+  return recordLedgerEntry({
+    type: "withdraw",
+    amount_wei: String(response.requested),
+    fee_wei: String(response.fee),
+    tx_id: response.tx_id,
+    reason: "manual",
+    network: IRYS_NETWORK,
+  });
+};
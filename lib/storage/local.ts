@@ -0,0 +1,73 @@
+import fs from "fs";
+import path from "path";
+import { sha256Hex } from "../signing";
+import { StorageBackend, StorageNotFoundError, StorageTag, contentTypeOf } from "./types";
+
+// Content-addressed storage on local disk, for development, tests and
+// offline use. An object's id is the SHA-256 of its bytes; the bytes are
+// kept in <dir>/<id> and their tags in <dir>/<id>.json. The API serves them
+// at GET /storage/:id, so URLs look like any other dataset link. Storing the
+// same bytes twice keeps the first tags.
+
+export const LOCAL_STORAGE_DIR = path.resolve(
+  __dirname,
+  "..",
+  "..",
+  process.env.LOCAL_STORAGE_DIR || "storage"
+);
+
+export const LOCAL_STORAGE_URL = (
+  process.env.LOCAL_STORAGE_URL || "http://localhost:3001/storage"
+).replace(/\/+$/, "");
+
+const isObjectId = (id: string) => /^[0-9a-f]{64}$/.test(id);
+
+export const createLocalStorage = (
+  dir = LOCAL_STORAGE_DIR,
+  base_url = LOCAL_STORAGE_URL
+): StorageBackend => {
+  const dataFile = (id: string) => path.join(dir, id);
+  const tagsFile = (id: string) => path.join(dir, `${id}.json`);
+  const urlFor = (id: string) => `${base_url}/${id}`;
+
+  return {
+    name: "local",
+    urlFor,
+
+    idFromUrl: (url: string) => {
+      const id = url.startsWith(`${base_url}/`) ? url.slice(base_url.length + 1) : null;
+      return id && isObjectId(id) ? id : null;
+    },
+
+    quote: async () => "0",
+
+    has: async (id: string) => isObjectId(id) && fs.existsSync(dataFile(id)),
+
+    put: async (data: Buffer | string, tags: StorageTag[]) => {
+      const bytes = Buffer.from(data);
+      const id = sha256Hex(bytes);
+      if (!fs.existsSync(dataFile(id))) {
+        fs.mkdirSync(dir, { recursive: true });
+        // Tags first: an object whose bytes exist always has its tags
+        fs.writeFileSync(tagsFile(id), JSON.stringify({ tags, created_at: new Date().toISOString() }));
+        const tmp = `${dataFile(id)}.${process.pid}.tmp`;
+        fs.writeFileSync(tmp, bytes);
+        fs.renameSync(tmp, dataFile(id));
+      }
+      console.log(`Data stored locally. ${urlFor(id)}`);
+      return {
+        id,
+        url: urlFor(id),
+        cost: { bytes: bytes.length, price_wei: "0", funded_wei: "0" },
+      };
+    },
+
+    get: async (id: string) => {
+      if (!isObjectId(id) || !fs.existsSync(dataFile(id))) {
+        throw new StorageNotFoundError(id);
+      }
+      const { tags } = JSON.parse(fs.readFileSync(tagsFile(id), "utf-8"));
+      return { data: fs.readFileSync(dataFile(id)), content_type: contentTypeOf(tags), tags };
+    },
+  };
+};
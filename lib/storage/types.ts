@@ -0,0 +1,53 @@
+import { IrysUploadCost } from "../costs";
+
+// Shared types for storage backends. A backend stores bytes with tags under
+// an id it picks, serves them back and knows the public URL of each id.
+
+export interface StorageTag {
+  name: string;
+  value: string;
+}
+
+export interface StoredObject {
+  data: Buffer;
+  // Content-Type tag, or the type the backend served the bytes with
+  content_type: string | null;
+  tags: StorageTag[];
+}
+
+export interface PutResult {
+  id: string;
+  url: string;
+  cost: IrysUploadCost;
+  // The bytes were already stored; the receipt is the earlier upload's and
+  // nothing was paid
+  deduplicated?: boolean;
+  // When these bytes were first stored, per the upload index
+  stored_at?: string;
+}
+
+export interface StorageBackend {
+  // Registry name, e.g. "irys"
+  name: string;
+  put(data: Buffer | string, tags: StorageTag[]): Promise<PutResult>;
+  // Throws StorageNotFoundError when the id is unknown
+  get(id: string): Promise<StoredObject>;
+  urlFor(id: string): string;
+  // Id of an object this backend serves at url, or null for other URLs
+  idFromUrl(url: string): string | null;
+  // Price of storing `bytes` bytes, in wei
+  quote(bytes: number): Promise<string>;
+  // Whether an object is still stored; backends with permanent storage
+  // leave it out
+  has?(id: string): Promise<boolean>;
+}
+
+export class StorageNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Object ${id} not found`);
+    this.name = "StorageNotFoundError";
+  }
+}
+
+export const contentTypeOf = (tags: StorageTag[]) =>
+  tags.find((tag) => tag.name.toLowerCase() === "content-type")?.value || null;
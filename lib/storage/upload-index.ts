@@ -0,0 +1,71 @@
+import fs from "fs";
+import path from "path";
+
+// Receipts of past uploads keyed by backend and the SHA-256 of the stored
+// bytes, so storing the same payload again returns the first receipt instead
+// of paying for a second copy. Kept in upload-index.json.
+
+export interface UploadReceipt {
+  backend: string;
+  sha256: string;
+  id: string;
+  url: string;
+  bytes: number;
+  // What the first upload cost
+  price_wei: string;
+  created_at: string;
+  // Later uploads of the same bytes that were answered from the index
+  reused: number;
+}
+
+const INDEX_FILE = path.resolve(__dirname, "..", "..", "upload-index.json");
+
+let receipts: Map<string, UploadReceipt> | null = null;
+
+const keyOf = (backend: string, sha256: string) => `${backend}:${sha256}`;
+
+const loadIndex = () => {
+  if (receipts) {
+    return receipts;
+  }
+  receipts = new Map();
+  if (fs.existsSync(INDEX_FILE)) {
+    const stored: UploadReceipt[] = JSON.parse(fs.readFileSync(INDEX_FILE, "utf-8"));
+    for (const receipt of stored) {
+      receipts.set(keyOf(receipt.backend, receipt.sha256), receipt);
+    }
+  }
+  return receipts;
+};
+
+const saveIndex = () => {
+  const tmp = `${INDEX_FILE}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(Array.from(loadIndex().values())));
+  fs.renameSync(tmp, INDEX_FILE);
+};
+
+export const findUpload = (backend: string, sha256: string) =>
+  loadIndex().get(keyOf(backend, sha256)) || null;
+
+export const recordUpload = (receipt: Omit<UploadReceipt, "created_at" | "reused">) => {
+  const recorded: UploadReceipt = {
+    ...receipt,
+    created_at: new Date().toISOString(),
+    reused: 0,
+  };
+  loadIndex().set(keyOf(receipt.backend, receipt.sha256), recorded);
+  saveIndex();
+  return recorded;
+};
+
+export const markReused = (receipt: UploadReceipt) => {
+  receipt.reused++;
+  saveIndex();
+};
+
+// Drops a receipt whose object is gone, so the next upload stores it again
+export const forgetUpload = (backend: string, sha256: string) => {
+  if (loadIndex().delete(keyOf(backend, sha256))) {
+    saveIndex();
+  }
+};
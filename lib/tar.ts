@@ -0,0 +1,81 @@
+// Minimal ustar writer/reader for dataset bundles: regular files only, no
+// compression. Entries get a fixed mtime so the same files always produce the
+// same bytes (and the same content hash).
+
+export interface TarEntry {
+  name: string;
+  content: Buffer | string;
+}
+
+const BLOCK_SIZE = 512;
+
+const writeString = (header: Buffer, value: string, offset: number, length: number) => {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), "utf-8");
+};
+
+const writeOctal = (header: Buffer, value: number, offset: number, length: number) => {
+  writeString(header, value.toString(8).padStart(length - 1, "0") + "\0", offset, length);
+};
+
+const entryHeader = (name: string, size: number) => {
+  if (Buffer.byteLength(name) > 100) {
+    throw new Error(`Tar entry name too long: ${name}`);
+  }
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeString(header, name, 0, 100);
+  writeOctal(header, 0o644, 100, 8); // mode
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, 0, 136, 12); // mtime
+  header.fill(" ", 148, 156); // checksum placeholder
+  writeString(header, "0", 156, 1); // regular file
+  writeString(header, "ustar\0", 257, 6);
+  writeString(header, "00", 263, 2);
+
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  writeString(header, checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8);
+  return header;
+};
+
+export const writeTar = (entries: TarEntry[]) => {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const content = Buffer.isBuffer(entry.content)
+      ? entry.content
+      : Buffer.from(entry.content, "utf-8");
+    blocks.push(entryHeader(entry.name, content.length), content);
+    const padding = (BLOCK_SIZE - (content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) {
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+};
+
+export const isTar = (data: Buffer) =>
+  data.length >= BLOCK_SIZE && data.toString("ascii", 257, 262) === "ustar";
+
+export const readTar = (data: Buffer): TarEntry[] => {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const name = header.toString("utf-8", 0, 100).replace(/\0.*$/s, "");
+    const size = parseInt(header.toString("ascii", 124, 136).replace(/\0.*$/s, "").trim(), 8) || 0;
+    const type = header.toString("ascii", 156, 157);
+    offset += BLOCK_SIZE;
+    if (type === "0" || type === "\0") {
+      entries.push({ name, content: data.subarray(offset, offset + size) });
+    }
+    offset += Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+  return entries;
+};
@@ -0,0 +1,21 @@
+// Bounded-concurrency pool: at most `concurrency` workers run at once, each
+// pulling the next item index until the list is exhausted or `should_stop`
+// returns true. Items already in flight are allowed to finish.
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  should_stop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+  const size = Math.max(1, Math.min(concurrency, items.length));
+
+  const runWorker = async () => {
+    while (next < items.length && !should_stop()) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: size }, runWorker));
+}
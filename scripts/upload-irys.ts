@@ -2,27 +2,16 @@ import { ethers } from "ethers";
 import * as fs from "fs";
 import * as path from "path";
 import * as dotenv from "dotenv";
-import { Uploader } from "@irys/upload";
-import { Ethereum } from "@irys/upload-ethereum";
 import "dotenv/config";
+import { getStorage, putObject } from "../lib/storage";
 
 
 dotenv.config();
 
-async function getIrys() {
-  const rpcUrl = process.env.INFURA_RPC || "";
-  const uploader = await Uploader(Ethereum)
-    .withWallet(process.env.PRIVATE_KEY)
-    .withRpc(rpcUrl)
-    .devnet();
-  
-  console.log(`Connected to Irys with address: ${uploader.address}`);
-  return uploader;
-}
-
+// Uploads go to the backend selected by STORAGE_BACKEND, like the API's
 async function uploadFile(filePath: string, tags: Array<{ name: string, value: string }> = []) {
   try {
-    const uploader = await getIrys();
+    const storage = getStorage();
     
     // Check if the file exists
     if (!fs.existsSync(filePath)) {
@@ -44,30 +33,21 @@ async function uploadFile(filePath: string, tags: Array<{ name: string, value: s
     ];
     
     // Get the cost to upload
-    const price = await uploader.getPrice(fileData.length);
-    console.log(`Cost to upload: ${ethers.formatEther(price.toString())} ETH`);
-    
-    // Fund the upload if needed
-    const balance = await uploader.getLoadedBalance();
-    if (balance < price) {
-      console.log("Funding upload...");
-      const fundTx = await uploader.fund(price);
-      console.log(`Funding successful: ${fundTx.id}`);
-    }
+    const price = await storage.quote(fileData.length);
+    console.log(`Cost to upload: ${ethers.formatEther(price)} ETH`);
     
-    // Upload the file
-    console.log(`Uploading file: ${fileName}`);
-    const receipt = await uploader.upload(fileData, {
-      tags: allTags
-    });
+    // Upload the file unless the same bytes are already stored; the backend
+    // funds it if needed
+    console.log(`Uploading file: ${fileName} to ${storage.name}`);
+    const receipt = await putObject(fileData, allTags);
     
     console.log(`File uploaded successfully!`);
     console.log(`Transaction ID: ${receipt.id}`);
-    console.log(`URL: https://gateway.irys.xyz/${receipt.id}`);
+    console.log(`URL: ${receipt.url}`);
     
     return {
       id: receipt.id,
-      url: `https://gateway.irys.xyz/${receipt.id}`
+      url: receipt.url
     };
   } catch (error) {
     console.error("Error uploading file:", error);
@@ -77,7 +57,7 @@ async function uploadFile(filePath: string, tags: Array<{ name: string, value: s
 
 async function uploadMetadata(metadata: any, tags: Array<{ name: string, value: string }> = []) {
   try {
-    const uploader = await getIrys();
+    const storage = getStorage();
     
     // Convert metadata to JSON string
     const metadataStr = JSON.stringify(metadata);
@@ -92,30 +72,21 @@ async function uploadMetadata(metadata: any, tags: Array<{ name: string, value:
     ];
     
     // Get the cost to upload
-    const price = await uploader.getPrice(metadataStr.length);
-    console.log(`Cost to upload metadata: ${ethers.formatEther(price.toString())} ETH`);
-    
-    // Fund the upload if needed
-    const balance = await uploader.getLoadedBalance();
-    if (balance < price) {
-      console.log("Funding upload...");
-      const fundTx = await uploader.fund(price);
-      console.log(`Funding successful: ${fundTx.id}`);
-    }
+    const price = await storage.quote(Buffer.byteLength(metadataStr));
+    console.log(`Cost to upload metadata: ${ethers.formatEther(price)} ETH`);
     
-    // Upload the metadata
-    console.log("Uploading metadata...");
-    const receipt = await uploader.upload(metadataStr, {
-      tags: allTags
-    });
+    // Upload the metadata unless the same bytes are already stored; the
+    // backend funds it if needed
+    console.log(`Uploading metadata to ${storage.name}...`);
+    const receipt = await putObject(metadataStr, allTags);
     
     console.log(`Metadata uploaded successfully!`);
     console.log(`Transaction ID: ${receipt.id}`);
-    console.log(`URL: https://gateway.irys.xyz/${receipt.id}`);
+    console.log(`URL: ${receipt.url}`);
     
     return {
       id: receipt.id,
-      url: `https://gateway.irys.xyz/${receipt.id}`
+      url: receipt.url
     };
   } catch (error) {
     console.error("Error uploading metadata:", error);
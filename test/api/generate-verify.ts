@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { ChildProcess, spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "ethers";
+
+// Runs the API offline (fixture model, local storage) and checks that a
+// generated dataset verifies: every row signature and the signed manifest.
+
+const ROOT = path.resolve(__dirname, "..", "..");
+const PORT = 3101;
+const BASE = `http://localhost:${PORT}`;
+const SIGNING_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const HISTORY_FILE = path.join(ROOT, "history.json");
+
+const post = async (route: string, body: any) => {
+  const response = await fetch(BASE + route, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: (await response.json()) as any };
+};
+
+const waitForJob = async (job_id: string) => {
+  for (let i = 0; i < 120; i++) {
+    const job = (await (await fetch(`${BASE}/api/generate/jobs/${job_id}`)).json()) as any;
+    if (job.status === "completed" || job.status === "failed") {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  throw new Error(`Job ${job_id} did not finish`);
+};
+
+// Fields /api/generate requires besides the seeds
+const REQUEST = {
+  domain: "medical",
+  dataset_name: "Verify test",
+  description: "Fixture rows",
+  visibility: "public",
+  price_usdc: 0,
+  max_tokens: 500,
+  source_dataset: "test",
+  ai_model: "fixture",
+};
+
+describe("generate and verify", function () {
+  this.timeout(180000);
+
+  let server: ChildProcess;
+  let storageDir: string;
+  // The API appends runs to history.json, which is checked in
+  let history: string | null;
+
+  before(async function () {
+    history = fs.existsSync(HISTORY_FILE) ? fs.readFileSync(HISTORY_FILE, "utf-8") : null;
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "sagasynth-test-"));
+    server = spawn(
+      process.execPath,
+      [require.resolve("ts-node/dist/bin"), "--project", "tsconfig.api.json", "api.ts"],
+      {
+        cwd: ROOT,
+        env: {
+          ...process.env,
+          PORT: String(PORT),
+          STORAGE_BACKEND: "local",
+          LOCAL_STORAGE_DIR: storageDir,
+          LOCAL_STORAGE_URL: `${BASE}/storage`,
+          SIGNING_PRIVATE_KEY: SIGNING_KEY,
+          LLM_CACHE: "false",
+        },
+        stdio: ["ignore", "pipe", "pipe"],
+      }
+    );
+    await new Promise<void>((resolve, reject) => {
+      let output = "";
+      server.stdout!.on("data", (chunk) => {
+        output += chunk;
+        if (output.includes("Server running")) resolve();
+      });
+      server.stderr!.on("data", (chunk) => (output += chunk));
+      server.on("exit", (code) => reject(new Error(`API exited with ${code}:\n${output}`)));
+    });
+  });
+
+  after(function () {
+    server?.kill();
+    if (history !== null) {
+      fs.writeFileSync(HISTORY_FILE, history);
+    }
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  for (const output_format of ["json", "csv"]) {
+    it(`publishes a ${output_format} dataset whose rows and manifest verify`, async function () {
+      const started = await post("/api/generate", {
+        seeds: [
+          "Patient reports a mild headache for two days, no fever.",
+          "Follow-up visit for seasonal allergies; symptoms improved on antihistamines.",
+        ],
+        ...REQUEST,
+        variants_per_seed: 2,
+        sample_size: 4,
+        output_format,
+        seed: 7,
+        dedup: false,
+      });
+      expect(started.status, JSON.stringify(started.body)).to.equal(202);
+
+      const job = await waitForJob(started.body.job_id);
+      expect(job.status, job.error).to.equal("completed");
+      const { content_url, metadata_url } = job.irys_links;
+
+      const verified = await post("/api/verify", { url: content_url, metadata_url });
+      expect(verified.status).to.equal(200);
+      const signer = new ethers.Wallet(SIGNING_KEY).address;
+      expect(verified.body.rows).to.have.length(4);
+      for (const result of verified.body.rows) {
+        expect(result).to.include({ valid: true, signer });
+      }
+      expect(verified.body.manifest).to.include({ valid: true, signer });
+    });
+  }
+
+  it("reports a row edited after signing", async function () {
+    const started = await post("/api/generate", {
+      ...REQUEST,
+      input_text: "Patient reports a mild headache for two days, no fever.",
+      sample_size: 1,
+      output_format: "json",
+    });
+    expect(started.status, JSON.stringify(started.body)).to.equal(202);
+    const job = await waitForJob(started.body.job_id);
+    const [row] = job.result.data;
+    const edited = { ...row, original_text: row.original_text + " Edited." };
+    const verified = await post("/api/verify", { rows: [row, edited] });
+    expect(verified.body.rows.map((result: any) => result.valid)).to.deep.equal([true, false]);
+  });
+});
@@ -0,0 +1,76 @@
+import { expect } from "chai";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import {
+  appendCheckpoint,
+  clearCheckpoint,
+  loadCheckpoint,
+  openCheckpoint,
+} from "../../lib/checkpoints";
+
+const CHECKPOINT_DIR = path.resolve(__dirname, "..", "..", "checkpoints");
+
+describe("checkpoints", function () {
+  // A fresh run per test; its file is removed afterwards
+  let run_id: string;
+  beforeEach(function () {
+    run_id = crypto.randomUUID();
+  });
+  afterEach(function () {
+    clearCheckpoint(run_id);
+  });
+
+  it("restores appended rows by round and index", function () {
+    appendCheckpoint(run_id, { round: 0, index: 0, row: { note: "first" } });
+    appendCheckpoint(run_id, { round: 1, index: 0, row: { note: "regenerated" } });
+    const entries = loadCheckpoint(run_id);
+    expect(entries.get("0:0")!.row).to.deep.equal({ note: "first" });
+    expect(entries.get("1:0")!.row).to.deep.equal({ note: "regenerated" });
+  });
+
+  it("keeps the last entry written for a row", function () {
+    const checkpoint = openCheckpoint(run_id);
+    checkpoint.put({ round: 0, index: 2, row: null, failure: { error: "bad" } });
+    checkpoint.put({ round: 0, index: 2, row: { note: "retried" } });
+    expect(openCheckpoint(run_id).get(0, 2)!.row).to.deep.equal({ note: "retried" });
+  });
+
+  it("skips a line cut short by a crash", function () {
+    appendCheckpoint(run_id, { round: 0, index: 0, row: { note: "kept" } });
+    fs.appendFileSync(path.join(CHECKPOINT_DIR, `${run_id}.jsonl`), '{"round":0,"index":1,"ro');
+    const entries = loadCheckpoint(run_id);
+    expect(entries.size).to.equal(1);
+    expect(entries.get("0:0")!.row).to.deep.equal({ note: "kept" });
+  });
+
+  it("leaves out retryable failures so a resumed run asks for them again", function () {
+    appendCheckpoint(run_id, { round: 0, index: 0, row: { note: "done" } });
+    appendCheckpoint(run_id, {
+      round: 0,
+      index: 1,
+      row: null,
+      failure: { error: "429 Too Many Requests", retryable: true },
+    });
+    appendCheckpoint(run_id, {
+      round: 0,
+      index: 2,
+      row: null,
+      failure: { error: "Schema validation failed", retryable: false },
+    });
+    const checkpoint = openCheckpoint(run_id);
+    expect(checkpoint.restored).to.equal(2);
+    expect(checkpoint.get(0, 1)).to.equal(undefined);
+    expect(checkpoint.get(0, 2)!.failure.retryable).to.equal(false);
+  });
+
+  it("starts empty after the checkpoint is cleared", function () {
+    appendCheckpoint(run_id, { round: 0, index: 0, row: { note: "done" } });
+    clearCheckpoint(run_id);
+    expect(openCheckpoint(run_id).restored).to.equal(0);
+  });
+
+  it("rejects run ids that aren't UUIDs", function () {
+    expect(() => loadCheckpoint("../jobs")).to.throw("Invalid run id");
+  });
+});
@@ -0,0 +1,106 @@
+import { expect } from "chai";
+import crypto from "crypto";
+import {
+  CHUNK_MANIFEST_TYPE,
+  ChunkManifest,
+  chunkHash,
+  chunksForRange,
+  merkleRoot,
+  splitIntoChunks,
+  verifyChunk,
+  verifyChunkManifest,
+} from "../../lib/chunked-dataset";
+
+const sha256 = (data: Buffer) => crypto.createHash("sha256").update(data).digest();
+const hashOf = (text: string) => chunkHash(Buffer.from(text));
+const hex = (hash: string) => Buffer.from(hash.slice(2), "hex");
+const leaf = (hash: string) =>
+  "0x" + sha256(Buffer.concat([Buffer.from([0]), hex(hash)])).toString("hex");
+const node = (left: string, right: string) =>
+  "0x" + sha256(Buffer.concat([Buffer.from([1]), hex(left), hex(right)])).toString("hex");
+
+describe("chunked datasets", function () {
+  describe("merkleRoot", function () {
+    it("is the leaf hash 0x00 || chunk hash when there is one chunk", function () {
+      expect(merkleRoot([hashOf("a")])).to.equal(leaf(hashOf("a")));
+    });
+
+    it("hashes 0x01 || left || right for each pair", function () {
+      const [a, b] = ["a", "b"].map(hashOf);
+      expect(merkleRoot([a, b])).to.equal(node(leaf(a), leaf(b)));
+    });
+
+    it("moves an odd node up unchanged", function () {
+      const [a, b, c] = ["a", "b", "c"].map(hashOf);
+      expect(merkleRoot([a, b, c])).to.equal(node(node(leaf(a), leaf(b)), leaf(c)));
+    });
+
+    it("gives a chunk holding an inner node's preimage another root", function () {
+      const [a, b] = ["a", "b"].map(hashOf);
+      const forged = chunkHash(Buffer.concat([Buffer.from([1]), hex(leaf(a)), hex(leaf(b))]));
+      expect(merkleRoot([forged])).to.not.equal(merkleRoot([a, b]));
+    });
+
+    it("depends on chunk order", function () {
+      expect(merkleRoot([hashOf("a"), hashOf("b")])).to.not.equal(
+        merkleRoot([hashOf("b"), hashOf("a")])
+      );
+    });
+
+    it("is the hash of nothing for no chunks", function () {
+      expect(merkleRoot([])).to.equal(chunkHash(Buffer.alloc(0)));
+    });
+  });
+
+  describe("manifests", function () {
+    const rows = Array.from({ length: 20 }, (_, i) => ({ original_text: `row ${i}`.repeat(10) }));
+    const parts = splitIntoChunks(rows, "jsonl", { name: "test" }, 500);
+    const chunks = parts.map((part, index) => ({
+      index,
+      id: `chunk-${index}`,
+      url: `https://example.com/chunk-${index}`,
+      row_start: part.row_start,
+      row_end: part.row_end,
+      bytes: part.body.length,
+      sha256: chunkHash(part.body),
+    }));
+    const manifest: ChunkManifest = {
+      type: CHUNK_MANIFEST_TYPE,
+      version: 1,
+      format: "jsonl",
+      content_type: "application/x-ndjson",
+      row_count: rows.length,
+      chunk_bytes: 500,
+      encrypted: false,
+      merkle_root: merkleRoot(chunks.map((chunk) => chunk.sha256)),
+      chunks,
+    };
+
+    it("splits rows into contiguous chunks near the size limit", function () {
+      expect(parts.length).to.be.greaterThan(1);
+      expect(parts[0].row_start).to.equal(0);
+      expect(parts[parts.length - 1].row_end).to.equal(rows.length);
+      parts.slice(1).forEach((part, i) => expect(part.row_start).to.equal(parts[i].row_end));
+    });
+
+    it("accepts an intact manifest and pins it to an expected root", function () {
+      expect(() => verifyChunkManifest(manifest, manifest.merkle_root)).to.not.throw();
+      expect(() => verifyChunkManifest(manifest, hashOf("other"))).to.throw(/does not match/);
+    });
+
+    it("rejects a manifest whose chunk list was changed", function () {
+      const swapped = { ...manifest, chunks: [...chunks].reverse() };
+      expect(() => verifyChunkManifest(swapped)).to.throw(/Chunk hashes give root/);
+    });
+
+    it("rejects a chunk whose bytes don't match", function () {
+      expect(() => verifyChunk(chunks[0], parts[0].body)).to.not.throw();
+      expect(() => verifyChunk(chunks[0], parts[1].body)).to.throw();
+    });
+
+    it("selects only the chunks covering a row range", function () {
+      const selected = chunksForRange(manifest, chunks[1].row_start, 1);
+      expect(selected.map((chunk) => chunk.index)).to.deep.equal([1]);
+    });
+  });
+});
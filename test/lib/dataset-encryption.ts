@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import crypto from "crypto";
+import { ethers } from "ethers";
+import {
+  ENCRYPTED_CONTENT_TYPE,
+  createDatasetCipher,
+  decryptDataset,
+  encryptDataset,
+  isPrivateVisibility,
+  parseRecipients,
+  unwrapForRecipient,
+  unwrapGatewayKey,
+} from "../../lib/dataset-encryption";
+
+const PLAINTEXT = { content_type: "application/json", format: "json" };
+const BODY = Buffer.from(JSON.stringify([{ note: "Mild headache for two days." }]));
+
+describe("dataset encryption", function () {
+  before(function () {
+    // Keeps the test from generating dataset-kek.key
+    process.env.DATASET_KEK = process.env.DATASET_KEK || crypto.randomBytes(32).toString("hex");
+  });
+
+  it("opens with the gateway-wrapped key", function () {
+    const { ciphertext, encryption } = encryptDataset(BODY, PLAINTEXT);
+    expect(ciphertext.includes(BODY)).to.equal(false);
+    expect(encryption).to.include({ plaintext_content_type: "application/json", tag_bytes: 16 });
+    const key = unwrapGatewayKey(encryption);
+    expect(decryptDataset(ciphertext, encryption, key).equals(BODY)).to.equal(true);
+  });
+
+  it("opens with a recipient's own private key", function () {
+    const wallet = ethers.Wallet.createRandom();
+    const recipients = parseRecipients([wallet.signingKey.publicKey]);
+    expect(recipients[0].address).to.equal(wallet.address);
+
+    const { ciphertext, encryption } = encryptDataset(BODY, PLAINTEXT, recipients);
+    const wrapped = encryption.wrapped_keys.find((key) => key.party === wallet.address)!;
+    const key = unwrapForRecipient(wrapped, wallet.privateKey);
+    expect(decryptDataset(ciphertext, encryption, key).equals(BODY)).to.equal(true);
+    expect(() => unwrapForRecipient(wrapped, ethers.Wallet.createRandom().privateKey)).to.throw();
+  });
+
+  it("won't unwrap a gateway key moved to another dataset id", function () {
+    const { encryption } = encryptDataset(BODY, PLAINTEXT);
+    const other = encryptDataset(BODY, PLAINTEXT).encryption;
+    expect(() => unwrapGatewayKey({ ...other, wrapped_keys: encryption.wrapped_keys })).to.throw();
+  });
+
+  it("rejects a ciphertext that was altered", function () {
+    const { ciphertext, encryption } = encryptDataset(BODY, PLAINTEXT);
+    ciphertext[0] ^= 1;
+    expect(() => decryptDataset(ciphertext, encryption, unwrapGatewayKey(encryption))).to.throw();
+  });
+
+  it("seals each chunk under the same key with its own IV", function () {
+    const cipher = createDatasetCipher(PLAINTEXT);
+    const first = cipher.seal(Buffer.from("chunk one"));
+    const second = cipher.seal(Buffer.from("chunk two"));
+    expect(first.iv).to.not.equal(second.iv);
+    const key = unwrapGatewayKey(cipher.encryption);
+    expect(
+      decryptDataset(second.ciphertext, cipher.encryption, key, second.iv).toString()
+    ).to.equal("chunk two");
+  });
+
+  it("reads recipients and visibility", function () {
+    expect(parseRecipients(undefined)).to.deep.equal([]);
+    expect(() => parseRecipients(["0x1234"])).to.throw("is not a secp256k1 public key");
+    expect(isPrivateVisibility(" Private ")).to.equal(true);
+    expect(isPrivateVisibility("public")).to.equal(false);
+    expect(ENCRYPTED_CONTENT_TYPE).to.equal("application/octet-stream");
+  });
+});
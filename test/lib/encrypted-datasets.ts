@@ -0,0 +1,75 @@
+import { expect } from "chai";
+import crypto from "crypto";
+import { ethers } from "ethers";
+import {
+  bindEncryptedDatasetToken,
+  entitledAddresses,
+  findEncryptedDataset,
+  recordEncryptedDataset,
+} from "../../lib/encrypted-datasets";
+import { decryptDataset, encryptDataset, unwrapGatewayKey } from "../../lib/dataset-encryption";
+import { consumeKeyChallenge, createKeyChallenge } from "../../lib/key-release";
+
+const PLAINTEXT = { content_type: "application/json", format: "json" };
+
+describe("encrypted datasets", function () {
+  before(function () {
+    // Keeps the test from generating dataset-kek.key
+    process.env.DATASET_KEK = process.env.DATASET_KEK || crypto.randomBytes(32).toString("hex");
+  });
+
+  // A private dataset as the generation job records it, with its own content
+  // hash and a made-up token id so tests don't share either
+  const publish = (recipients: string[] = []) => {
+    const body = Buffer.from(JSON.stringify([{ note: "Mild headache." }]));
+    const { ciphertext, encryption } = encryptDataset(body, PLAINTEXT);
+    const content_hash = "0x" + crypto.createHash("sha256").update(ciphertext).digest("hex");
+    const record = recordEncryptedDataset({
+      dataset_id: encryption.dataset_id,
+      content_hash,
+      content_url: "http://localhost/storage/" + encryption.dataset_id,
+      recipients,
+    });
+    return { body, ciphertext, encryption, record, token_id: String(crypto.randomInt(1e9)) };
+  };
+
+  it("releases the key to the owner of a token minted for the dataset", async function () {
+    const { body, ciphertext, encryption, record, token_id } = publish();
+    expect(bindEncryptedDatasetToken(record.content_hash.toUpperCase(), token_id)).to.deep.equal([
+      record.dataset_id,
+    ]);
+
+    const owner = ethers.Wallet.createRandom();
+    const challenge = createKeyChallenge(owner.address, { token_id });
+    const signature = await owner.signMessage(challenge.message);
+    const answered = consumeKeyChallenge(challenge.nonce, signature);
+    const stored = findEncryptedDataset(encryption.dataset_id)!;
+    expect(entitledAddresses(stored, { token_id, owner: owner.address })).to.include(
+      answered.address.toLowerCase()
+    );
+
+    const key = unwrapGatewayKey(encryption);
+    expect(decryptDataset(ciphertext, encryption, key).equals(body)).to.equal(true);
+  });
+
+  it("doesn't entitle the owner of a token that was never bound", function () {
+    const { record, token_id } = publish();
+    const owner = ethers.Wallet.createRandom().address;
+    expect(entitledAddresses(record, { token_id, owner })).to.deep.equal([]);
+  });
+
+  it("binds a token only to datasets with its content hash", function () {
+    const first = publish();
+    const second = publish();
+    expect(bindEncryptedDatasetToken(first.record.content_hash, first.token_id)).to.deep.equal([
+      first.record.dataset_id,
+    ]);
+    expect(findEncryptedDataset(second.record.dataset_id)!.token_ids).to.deep.equal([]);
+  });
+
+  it("entitles the recipients named at publish time", function () {
+    const recipient = ethers.Wallet.createRandom().address;
+    const { record } = publish([recipient]);
+    expect(entitledAddresses(record)).to.deep.equal([recipient.toLowerCase()]);
+  });
+});
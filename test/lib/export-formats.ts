@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import {
+  EXPORT_FORMATS,
+  detectFormat,
+  parseDataset,
+  parseOutputFormat,
+  serializeDataset,
+} from "../../lib/export-formats";
+import { canonicalJson } from "../../lib/signing";
+
+const INFO = { name: "Test dataset", description: "Rows for the round-trip test", domain: "medical" };
+
+const ROWS = [
+  {
+    original_text: "Patient reports a mild headache, two days.",
+    synthetic_output: {
+      note: 'Headache, "mild", since Monday\nNo fever.',
+      specialty: "Neurology",
+      severity: 2,
+      urgent: false,
+      codes: ["R51", "G44"],
+      vitals: { bp: "120/80", pulse: 72 },
+    },
+    seed_index: 0,
+    verification_status: "verified",
+    signature: "0x1234",
+  },
+  {
+    original_text: "42",
+    synthetic_output: { note: "true", specialty: "[not json", "dose.mg": 5, empty: {} },
+    seed_index: 1,
+    verification_status: "failed",
+    verification_errors: ["/severity is required"],
+  },
+];
+
+describe("export formats", function () {
+  for (const format of EXPORT_FORMATS) {
+    it(`reads back ${format} exactly as written`, function () {
+      const serialized = serializeDataset(ROWS, format, INFO);
+      const parsed = parseDataset(serialized.body, serialized.content_type);
+      expect(parsed.format).to.equal(format);
+      expect(canonicalJson(parsed.rows)).to.equal(canonicalJson(ROWS));
+    });
+  }
+
+  it("flattens output fields into CSV columns", function () {
+    const header = serializeDataset(ROWS, "csv", INFO).body.toString().split("\n")[0];
+    expect(header.split(",")).to.include.members([
+      "synthetic_output.note",
+      "synthetic_output.vitals.pulse",
+    ]);
+  });
+
+  it("keeps strings that look like JSON apart from the values they look like", function () {
+    const rows = [{ a: "42", b: 42, c: "true", d: true, e: "", f: null }];
+    const body = serializeDataset(rows, "csv", INFO).body;
+    expect(parseDataset(body, "text/csv").rows).to.deep.equal(rows);
+  });
+
+  it("detects the format from the bytes without a content type", function () {
+    for (const format of EXPORT_FORMATS) {
+      expect(detectFormat(serializeDataset(ROWS, format, INFO).body)).to.equal(format);
+    }
+  });
+
+  it("accepts the frontend's display names", function () {
+    expect(parseOutputFormat("Structured JSON")).to.equal("json");
+    expect(parseOutputFormat("JSON Lines")).to.equal("jsonl");
+    expect(parseOutputFormat("Hugging Face")).to.equal("hf");
+    expect(parseOutputFormat(undefined)).to.equal("json");
+    expect(parseOutputFormat("xml")).to.equal(null);
+  });
+});
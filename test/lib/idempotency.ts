@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import crypto from "crypto";
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  idempotencyRequestHash,
+  releaseIdempotencyKey,
+  validateIdempotencyKey,
+} from "../../lib/idempotency";
+
+const SCOPE = "POST /api/test";
+
+describe("idempotency", function () {
+  // Fresh keys per test; kept responses go to idempotency-keys.json and expire
+  let key: string;
+  beforeEach(function () {
+    key = crypto.randomUUID();
+  });
+
+  it("hashes request bodies independently of key order", function () {
+    expect(idempotencyRequestHash({ a: 1, b: [1, 2] })).to.equal(
+      idempotencyRequestHash({ b: [1, 2], a: 1 })
+    );
+    expect(idempotencyRequestHash({ a: 1 })).to.not.equal(idempotencyRequestHash({ a: 2 }));
+  });
+
+  it("replays the kept response for a retry of the same request", function () {
+    const hash = idempotencyRequestHash({ sample_size: 5 });
+    expect(beginIdempotentRequest(SCOPE, key, hash)).to.deep.equal({ state: "new" });
+    expect(beginIdempotentRequest(SCOPE, key, hash)).to.deep.equal({ state: "in_progress" });
+    completeIdempotentRequest(SCOPE, key, 202, { job_id: "job-1" });
+    expect(beginIdempotentRequest(SCOPE, key, hash)).to.deep.equal({
+      state: "replay",
+      status: 202,
+      body: { job_id: "job-1" },
+    });
+  });
+
+  it("refuses a key reused with a different body", function () {
+    const hash = idempotencyRequestHash({ sample_size: 5 });
+    const other = idempotencyRequestHash({ sample_size: 6 });
+    beginIdempotentRequest(SCOPE, key, hash);
+    expect(beginIdempotentRequest(SCOPE, key, other)).to.deep.equal({ state: "mismatch" });
+    completeIdempotentRequest(SCOPE, key, 200, { ok: true });
+    expect(beginIdempotentRequest(SCOPE, key, other)).to.deep.equal({ state: "mismatch" });
+  });
+
+  it("scopes keys by method and path", function () {
+    const hash = idempotencyRequestHash({});
+    beginIdempotentRequest(SCOPE, key, hash);
+    completeIdempotentRequest(SCOPE, key, 200, { ok: true });
+    expect(beginIdempotentRequest("POST /api/other", key, hash)).to.deep.equal({ state: "new" });
+    releaseIdempotencyKey("POST /api/other", key);
+  });
+
+  it("doesn't keep 5xx responses, so the request can be retried", function () {
+    const hash = idempotencyRequestHash({});
+    beginIdempotentRequest(SCOPE, key, hash);
+    completeIdempotentRequest(SCOPE, key, 503, { error: "unavailable" });
+    expect(beginIdempotentRequest(SCOPE, key, hash)).to.deep.equal({ state: "new" });
+    releaseIdempotencyKey(SCOPE, key);
+  });
+
+  it("validates key syntax", function () {
+    expect(() => validateIdempotencyKey("order-42")).to.not.throw();
+    expect(() => validateIdempotencyKey("")).to.throw();
+    expect(() => validateIdempotencyKey("has space")).to.throw();
+    expect(() => validateIdempotencyKey("x".repeat(256))).to.throw();
+  });
+});
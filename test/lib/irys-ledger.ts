@@ -0,0 +1,75 @@
+import { expect } from "chai";
+import {
+  IrysBudgetError,
+  SPEND_CAPS,
+  assertWithinBudget,
+  budgetStatus,
+  fundWithinBudget,
+  readLedger,
+} from "../../lib/storage/irys-ledger";
+
+const LEDGER_MODULE = require.resolve("../../lib/storage/irys-ledger");
+
+// The tests never let a funding transaction settle, so nothing is written to
+// irys-ledger.jsonl; caps are set relative to what it already holds.
+describe("irys ledger spend caps", function () {
+  const configured = { ...SPEND_CAPS };
+  let spentToday: bigint;
+  beforeEach(function () {
+    spentToday = BigInt(budgetStatus().daily.spent_wei);
+    SPEND_CAPS.daily = spentToday + BigInt(100);
+    SPEND_CAPS.monthly = null;
+  });
+  afterEach(function () {
+    Object.assign(SPEND_CAPS, configured);
+  });
+
+  it("allows funding up to the cap and refuses past it", function () {
+    expect(() => assertWithinBudget(BigInt(100))).to.not.throw();
+    expect(() => assertWithinBudget(BigInt(101)))
+      .to.throw(IrysBudgetError)
+      .with.property("window", "daily");
+    expect(budgetStatus().daily.remaining_wei).to.equal("100");
+  });
+
+  it("holds in-flight funding against the cap until the transaction fails", async function () {
+    const entries = readLedger(Infinity).length;
+    let fail!: (error: Error) => void;
+    const funding = fundWithinBudget(
+      BigInt(60),
+      { reason: "manual", network: "test" },
+      () => new Promise((_, reject) => (fail = reject))
+    );
+
+    expect(budgetStatus().daily).to.include({ pending_wei: "60", remaining_wei: "40" });
+    expect(() => assertWithinBudget(BigInt(60))).to.throw(IrysBudgetError);
+
+    fail(new Error("node unavailable"));
+    await expect(funding).to.be.rejectedWith("node unavailable");
+    expect(budgetStatus().daily.pending_wei).to.equal("0");
+    expect(readLedger(Infinity)).to.have.length(entries);
+  });
+
+  it("refuses all funding while a cap is malformed", function () {
+    const previous = process.env.IRYS_DAILY_CAP_WEI;
+    const logged = console.error;
+    process.env.IRYS_DAILY_CAP_WEI = "10 ether";
+    console.error = () => {};
+    delete require.cache[LEDGER_MODULE];
+    try {
+      const ledger = require(LEDGER_MODULE);
+      expect(ledger.SPEND_CAPS.daily).to.equal(null);
+      expect(() => ledger.assertWithinBudget(BigInt(1))).to.throw(
+        "Irys funding is disabled: IRYS_DAILY_CAP_WEI must be an amount in wei"
+      );
+    } finally {
+      console.error = logged;
+      if (previous === undefined) {
+        delete process.env.IRYS_DAILY_CAP_WEI;
+      } else {
+        process.env.IRYS_DAILY_CAP_WEI = previous;
+      }
+      delete require.cache[LEDGER_MODULE];
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import {
+  JudgeRubric,
+  describeJudgeFailure,
+  parseJudgeOptions,
+  resolveJudgeRubric,
+  scoreJudgeResponse,
+} from "../../lib/judge";
+
+const RUBRIC: JudgeRubric = {
+  id: "test",
+  version: "1.0.0",
+  domains: [],
+  description: "Test rubric",
+  instructions: "Rate the row.",
+  criteria: [
+    { name: "coherence", description: "Reads as one note", weight: 3, min_score: 2 },
+    { name: "faithfulness", description: "Matches the source", weight: 1 },
+  ],
+  scale: { min: 1, max: 5 },
+  threshold: 0.6,
+};
+
+const answer = (coherence: number, faithfulness: number) => ({
+  coherence: { score: coherence, rationale: "coherence rationale" },
+  faithfulness: { score: faithfulness, rationale: "faithfulness rationale" },
+});
+
+describe("judge", function () {
+  it("weights criteria and normalizes the score to [0, 1]", function () {
+    const verdict = scoreJudgeResponse(RUBRIC, answer(5, 1), "judge-model");
+    // (3 * 1 + 1 * 0) / 4
+    expect(verdict.score).to.equal(0.75);
+    expect(verdict.passed).to.equal(true);
+    expect(verdict.scores!.coherence).to.deep.equal({ score: 5, rationale: "coherence rationale" });
+    expect(verdict).to.include({ rubric_id: "test", model: "judge-model", threshold: 0.6 });
+  });
+
+  it("fails a row below the threshold", function () {
+    const verdict = scoreJudgeResponse(RUBRIC, answer(3, 3), "judge-model");
+    expect(verdict.score).to.equal(0.5);
+    expect(verdict.passed).to.equal(false);
+    expect(verdict.failed_criteria).to.equal(undefined);
+  });
+
+  it("fails a row with a criterion under its min_score whatever the total", function () {
+    const verdict = scoreJudgeResponse(RUBRIC, answer(1, 5), "judge-model", 0);
+    expect(verdict.passed).to.equal(false);
+    expect(verdict.failed_criteria).to.deep.equal(["coherence"]);
+    expect(describeJudgeFailure(verdict)).to.contain("coherence");
+  });
+
+  it("throws on a missing or out-of-range score", function () {
+    expect(() => scoreJudgeResponse(RUBRIC, { coherence: { score: 4 } }, "judge-model")).to.throw(
+      /faithfulness/
+    );
+    expect(() => scoreJudgeResponse(RUBRIC, answer(6, 3), "judge-model")).to.throw(/coherence/);
+  });
+
+  it("picks the clinical rubric for medical domains", function () {
+    expect(resolveJudgeRubric("medical").id).to.equal("medical-clinical");
+    expect(resolveJudgeRubric("finance").id).to.equal("generic");
+  });
+
+  it("reads the request's judge field", function () {
+    expect(parseJudgeOptions(true).enabled).to.equal(true);
+    expect(parseJudgeOptions({ threshold: 0.8 })).to.include({ enabled: true, threshold: 0.8 });
+    expect(() => parseJudgeOptions({ threshold: 2 })).to.throw();
+  });
+});
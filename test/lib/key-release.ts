@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { consumeKeyChallenge, createKeyChallenge } from "../../lib/key-release";
+
+describe("key release challenges", function () {
+  const wallet = ethers.Wallet.createRandom();
+
+  it("accepts the challenged address's signature once", async function () {
+    const challenge = createKeyChallenge(wallet.address.toLowerCase(), { token_id: "7" });
+    expect(challenge.address).to.equal(wallet.address);
+    expect(challenge.message).to.include("Dataset: token 7");
+
+    const signature = await wallet.signMessage(challenge.message);
+    expect(consumeKeyChallenge(challenge.nonce, signature).target).to.deep.equal({
+      token_id: "7",
+    });
+    expect(() => consumeKeyChallenge(challenge.nonce, signature)).to.throw(
+      "Unknown or expired challenge"
+    );
+  });
+
+  it("rejects a signature from another address and uses the challenge up", async function () {
+    const challenge = createKeyChallenge(wallet.address, { metadata_url: "http://x/meta" });
+    const other = await ethers.Wallet.createRandom().signMessage(challenge.message);
+    expect(() => consumeKeyChallenge(challenge.nonce, other)).to.throw(
+      "Signature does not match the challenged address"
+    );
+    const own = await wallet.signMessage(challenge.message);
+    expect(() => consumeKeyChallenge(challenge.nonce, own)).to.throw("Unknown or expired");
+  });
+
+  it("reports a malformed signature", function () {
+    const challenge = createKeyChallenge(wallet.address, { token_id: "1" });
+    expect(() => consumeKeyChallenge(challenge.nonce, "0x1234")).to.throw("Malformed signature");
+  });
+
+  it("names what a redaction map challenge reveals", function () {
+    const challenge = createKeyChallenge(wallet.address, { redaction_map_id: "map-1" });
+    expect(challenge.message.split("\n").slice(0, 2)).to.deep.equal([
+      "Reveal the original values of a redaction map",
+      "Redaction map: map-1",
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { expect } from "chai";
+import {
+  allocateQuotas,
+  assignLabels,
+  createLabelBalancer,
+  parseLabelDistribution,
+} from "../../lib/label-distribution";
+
+const TARGET = { Cardiology: 0.4, Neurology: 0.3, Pulmonology: 0.3 };
+
+describe("label distribution", function () {
+  it("normalizes percentages and fractions alike", function () {
+    expect(parseLabelDistribution({ Cardiology: 40, Neurology: 30, Pulmonology: 30 })).to.deep.equal(
+      TARGET
+    );
+    expect(parseLabelDistribution({ Cardiology: 2, Neurology: 1.5, Pulmonology: 1.5 })).to.deep.equal(
+      TARGET
+    );
+  });
+
+  it("rejects invalid distributions", function () {
+    expect(() => parseLabelDistribution({})).to.throw();
+    expect(() => parseLabelDistribution({ A: 1, " a ": 1 })).to.throw(/twice/);
+    expect(() => parseLabelDistribution({ A: 0 })).to.throw(/positive/);
+    expect(() => parseLabelDistribution(["A"])).to.throw();
+  });
+
+  it("allocates quotas that sum to the row count", function () {
+    expect(allocateQuotas(TARGET, 10)).to.deep.equal({ Cardiology: 4, Neurology: 3, Pulmonology: 3 });
+    const quotas = allocateQuotas(TARGET, 7);
+    expect(Object.values(quotas).reduce((sum, quota) => sum + quota, 0)).to.equal(7);
+    expect(quotas.Cardiology).to.equal(3);
+  });
+
+  it("interleaves row targets so every prefix stays balanced", function () {
+    const targets = assignLabels({ Cardiology: 4, Neurology: 3, Pulmonology: 3 });
+    expect(targets).to.have.length(10);
+    expect(targets.slice(0, 3)).to.have.members(["Cardiology", "Neurology", "Pulmonology"]);
+    expect(targets.filter((label) => label === "Cardiology")).to.have.length(4);
+  });
+
+  it("rejects off-target labels and labels whose quota is full", function () {
+    const balancer = createLabelBalancer({ label_field: "specialty", target: TARGET }, 3);
+    expect(balancer.quotas).to.deep.equal({ Cardiology: 1, Neurology: 1, Pulmonology: 1 });
+    expect(balancer.check("cardiology ")).to.equal(null);
+    balancer.accept("cardiology ");
+    expect(balancer.check("Cardiology")).to.equal("label_quota_full");
+    expect(balancer.check("Dermatology")).to.equal("label_off_target");
+    expect(balancer.retarget(2)).to.have.members(["Neurology", "Pulmonology"]);
+  });
+
+  it("reports achieved counts and unfilled quotas", function () {
+    const balancer = createLabelBalancer({ label_field: "specialty", target: TARGET }, 3);
+    const report = balancer.report([
+      { synthetic_output: { specialty: "Cardiology" } },
+      { synthetic_output: { specialty: "Neurology" } },
+      { synthetic_output: { specialty: "Dermatology" } },
+    ]);
+    expect(report.achieved).to.deep.equal({ Cardiology: 1, Neurology: 1, Pulmonology: 0 });
+    expect(report.off_target).to.equal(1);
+    expect(report.unfilled).to.deep.equal({ Pulmonology: 1 });
+  });
+});
@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import {
+  applyPrivacyPolicy,
+  checkRowPrivacy,
+  collectText,
+  detectIdentifiers,
+  parsePrivacyPolicy,
+} from "../../lib/privacy";
+
+const typesIn = (text: string) => detectIdentifiers(text).map((span) => [span.type, span.value]);
+
+describe("privacy", function () {
+  describe("detectIdentifiers", function () {
+    it("finds each identifier type", function () {
+      expect(
+        typesIn(
+          "Mrs. Alvarez (MRN: A123456) was seen on March 3, 2024 at 12 Oak Street. " +
+            "Call (555) 123-4567 or mail a.alvarez@example.org. She is 93 years old."
+        )
+      ).to.deep.equal([
+        ["NAME", "Mrs. Alvarez"],
+        ["MRN", "A123456"],
+        ["DATE", "March 3, 2024"],
+        ["ADDRESS", "12 Oak Street"],
+        ["PHONE", "(555) 123-4567"],
+        ["EMAIL", "a.alvarez@example.org"],
+        ["AGE", "93"],
+      ]);
+    });
+
+    it("only reports ages over 89", function () {
+      expect(typesIn("A 67 year old man and a 91 y/o woman.")).to.deep.equal([["AGE", "91"]]);
+    });
+
+    it("finds a bare name before a narrative verb or an age", function () {
+      expect(typesIn("John Smith presented with chest pain.")).to.deep.equal([
+        ["NAME", "John Smith"],
+      ]);
+      expect(typesIn("Jane Doe, 45, reports a rash.")).to.deep.equal([["NAME", "Jane Doe"]]);
+    });
+
+    it("doesn't take clinical phrases for bare names", function () {
+      expect(typesIn("Blood Pressure was 120/80. Chest Pain has resolved.")).to.deep.equal([]);
+    });
+  });
+
+  describe("checkRowPrivacy", function () {
+    const SOURCE = "Patient: Maria Lopez, seen 04/12/2023, phone 555-867-5309.";
+
+    it("fails a row that repeats an identifier from its source, even reformatted", function () {
+      const verdict = checkRowPrivacy(SOURCE, {
+        note: "Maria Lopez returned for follow-up.",
+        contact: "555.867.5309",
+      });
+      expect(verdict.verdict).to.equal("fail");
+      expect(verdict.leaked).to.deep.equal([
+        { type: "NAME", value: "Maria Lopez" },
+        { type: "PHONE", value: "555-867-5309" },
+      ]);
+    });
+
+    it("warns about identifiers that are not in the source", function () {
+      const verdict = checkRowPrivacy(SOURCE, { note: "Seen by Dr. Patel on 05/01/2023." });
+      expect(verdict.verdict).to.equal("warn");
+      expect(verdict.output_identifiers).to.deep.equal([
+        { type: "NAME", value: "Dr. Patel" },
+        { type: "DATE", value: "05/01/2023" },
+      ]);
+    });
+
+    it("passes a row without identifiers", function () {
+      expect(checkRowPrivacy(SOURCE, { note: "Follow-up in two weeks." }).verdict).to.equal(
+        "pass"
+      );
+    });
+  });
+
+  it("collects every string of a nested output", function () {
+    expect(collectText({ a: "one", b: ["two", { c: "three" }] })).to.equal("one\ntwo\nthree");
+  });
+
+  describe("applyPrivacyPolicy", function () {
+    const rows = [
+      { id: 1, privacy: checkRowPrivacy("Call 555-867-5309.", "Call 555-867-5309.") },
+      { id: 2, privacy: checkRowPrivacy("", "Seen by Dr. Patel.") },
+      { id: 3, privacy: checkRowPrivacy("", "Follow-up.") },
+    ];
+
+    it("keeps and counts failing rows with flag", function () {
+      const { kept, removed, report } = applyPrivacyPolicy(rows, "flag");
+      expect(kept.map((row) => row.id)).to.deep.equal([1, 2, 3]);
+      expect(removed).to.deep.equal([]);
+      expect(report).to.include({ passed: 1, warned: 1, failed: 1, removed: 0 });
+      expect(report.leaked_by_type).to.deep.equal({ PHONE: 1 });
+    });
+
+    it("takes failing rows out with drop and quarantine", function () {
+      for (const policy of ["drop", "quarantine"] as const) {
+        const { kept, removed, report } = applyPrivacyPolicy(rows, policy);
+        expect(kept.map((row) => row.id)).to.deep.equal([2, 3]);
+        expect(removed.map((row) => row.id)).to.deep.equal([1]);
+        expect(report.removed).to.equal(1);
+      }
+    });
+  });
+
+  it("accepts only known policies", function () {
+    expect(parsePrivacyPolicy("drop")).to.equal("drop");
+    expect(parsePrivacyPolicy("delete")).to.equal(null);
+    expect(parsePrivacyPolicy(undefined)).to.equal(null);
+  });
+});
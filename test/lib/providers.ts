@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import {
+  LLMProvider,
+  getProvider,
+  isSupportedModel,
+  parseJsonResponse,
+  registerProvider,
+} from "../../lib/providers";
+
+const CONFIG = { max_output_tokens: 256, temperature: 0.7 };
+
+describe("providers", function () {
+  describe("registry", function () {
+    it("resolves the fixture model and reuses its instance", function () {
+      const provider = getProvider("fixture");
+      expect(provider.name).to.equal("fixture");
+      expect(getProvider("Fixture")).to.equal(provider);
+    });
+
+    it("knows model families by their ai_model string", function () {
+      expect(isSupportedModel("Gemini 2.5 Flash")).to.equal(true);
+      expect(isSupportedModel("openai:gpt-4o-mini")).to.equal(true);
+      expect(isSupportedModel("echo:small")).to.equal(true);
+      expect(isSupportedModel("claude-3")).to.equal(false);
+    });
+
+    it("rejects unsupported models and families without a model", function () {
+      expect(() => getProvider("claude-3")).to.throw('Unsupported ai_model "claude-3"');
+      expect(() => getProvider("openai:")).to.throw("does not name a model");
+    });
+
+    it("tries families registered later first", function () {
+      const custom: LLMProvider = {
+        name: "custom",
+        model: "fixture:custom",
+        generateJson: async () => ({ json: {}, text: "{}" }),
+      };
+      registerProvider({
+        name: "custom",
+        matches: (ai_model) => ai_model === "fixture:custom",
+        modelFor: (ai_model) => ai_model,
+        create: () => custom,
+      });
+      expect(getProvider("fixture:custom")).to.equal(custom);
+    });
+  });
+
+  describe("fixture provider", function () {
+    it("gives the same output for the same prompt, seed and model", async function () {
+      const provider = getProvider("fixture");
+      const config = { ...CONFIG, seed: 7, response_fields: ["note", "specialty"] };
+      const first = await provider.generateJson("Write a note.", config);
+      const again = await provider.generateJson("Write a note.", config);
+      const reseeded = await provider.generateJson("Write a note.", { ...config, seed: 8 });
+      expect(again.json).to.deep.equal(first.json);
+      expect(reseeded.json).to.not.deep.equal(first.json);
+      expect(Object.keys(first.json)).to.deep.equal(["note", "specialty"]);
+      expect(first.usage!.total_tokens).to.equal(
+        first.usage!.prompt_tokens + first.usage!.output_tokens
+      );
+    });
+
+    it("fills the response schema when one is given", async function () {
+      const { json } = await getProvider("fixture").generateJson("Write a note.", {
+        ...CONFIG,
+        response_schema: {
+          type: "object",
+          properties: { severity: { type: "integer", minimum: 1, maximum: 5 } },
+          required: ["severity"],
+        },
+      });
+      expect(json.severity).to.be.a("number").within(1, 5);
+    });
+  });
+
+  describe("parseJsonResponse", function () {
+    it("accepts fenced JSON", function () {
+      expect(parseJsonResponse('```json\n{"a": 1}\n```')).to.deep.equal({ a: 1 });
+    });
+
+    it("reports empty and invalid output", function () {
+      expect(() => parseJsonResponse("  ")).to.throw("Empty response from model");
+      expect(() => parseJsonResponse("{a: 1}")).to.throw("Model returned invalid JSON");
+    });
+  });
+});
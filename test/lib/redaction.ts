@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import crypto from "crypto";
+import { createRedactor, parseRedactTypes, reverseRedaction } from "../../lib/redaction";
+import { checkRowPrivacy, fingerprintIdentifiers } from "../../lib/privacy";
+
+const NOTE =
+  "John Smith, 67, presented on 03/14/2023. Call 555-123-4567 or email john.smith@example.com.";
+
+describe("redaction", function () {
+  it("replaces identifiers with typed placeholders", function () {
+    const redactor = createRedactor();
+    expect(redactor.redact(NOTE)).to.equal(
+      "[NAME_1], 67, presented on [DATE_1]. Call [PHONE_1] or email [EMAIL_1]."
+    );
+    expect(redactor.summary()).to.deep.equal({
+      applied: true,
+      replacements: 4,
+      counts: { NAME: 1, DATE: 1, PHONE: 1, EMAIL: 1 },
+    });
+  });
+
+  it("gives a value the same placeholder in every text", function () {
+    const redactor = createRedactor();
+    redactor.redact(NOTE);
+    expect(redactor.redact("Follow-up: John Smith was seen again; MRN 00123456.")).to.equal(
+      "Follow-up: [NAME_1] was seen again; MRN [MRN_1]."
+    );
+  });
+
+  it("only redacts the requested types", function () {
+    const redactor = createRedactor(parseRedactTypes(["email"])!);
+    expect(redactor.redact(NOTE)).to.equal(
+      "John Smith, 67, presented on 03/14/2023. Call 555-123-4567 or email [EMAIL_1]."
+    );
+  });
+
+  it("rejects unknown types", function () {
+    expect(parseRedactTypes(["NAME", "SHOE_SIZE"])).to.equal(null);
+  });
+
+  it("reverses to the original text with its mapping", function () {
+    const redactor = createRedactor();
+    const redacted = redactor.redact(NOTE);
+    expect(reverseRedaction(redacted, redactor.mapping)).to.equal(NOTE);
+  });
+
+  it("leaves placeholders the mapping doesn't know", function () {
+    expect(reverseRedaction("[NAME_1] and [NAME_2]", { "[NAME_1]": "Ann Lee" })).to.equal(
+      "Ann Lee and [NAME_2]"
+    );
+  });
+
+  it("fails a row that repeats an identifier removed from its source", function () {
+    const redacted = createRedactor().redact(NOTE);
+    const fingerprints = fingerprintIdentifiers(NOTE);
+    const leaked = checkRowPrivacy(redacted, "Mr. Smith (John Smith) called from 5551234567.", fingerprints);
+    expect(leaked.verdict).to.equal("fail");
+    expect(leaked.leaked.map((entry) => entry.type)).to.include.members(["NAME", "PHONE"]);
+    expect(checkRowPrivacy(redacted, "The patient called the clinic.", fingerprints).verdict).to.equal(
+      "pass"
+    );
+  });
+
+  it("keys the fingerprints so a guessed value can't be checked against them", function () {
+    const hashes = fingerprintIdentifiers(NOTE).map((fingerprint) => fingerprint.hash);
+    const plain = crypto.createHash("sha256").update("5551234567").digest("hex");
+    expect(hashes).to.have.length(4);
+    expect(hashes).to.not.include(plain);
+  });
+});
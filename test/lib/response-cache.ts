@@ -0,0 +1,103 @@
+import { expect } from "chai";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { GenerationConfig, LLMProvider } from "../../lib/providers";
+import {
+  createCacheSession,
+  evictCachedResponse,
+  parseCacheOptions,
+  responseCacheKey,
+} from "../../lib/response-cache";
+
+const CACHE_DIR = path.resolve(__dirname, "..", "..", "llm-cache");
+const CONFIG: GenerationConfig = { max_output_tokens: 256, temperature: 0.7, seed: 1 };
+
+// Counts the calls that reach the model
+const countingProvider = () => {
+  const provider = {
+    name: "counting",
+    model: "test",
+    calls: 0,
+    generateJson: async (prompt: string) => {
+      provider.calls++;
+      return {
+        json: { note: `${prompt} #${provider.calls}` },
+        text: "{}",
+        usage: { prompt_tokens: 1, output_tokens: 1, total_tokens: 2 },
+      };
+    },
+  };
+  return provider;
+};
+
+describe("response cache", function () {
+  // A prompt nobody else caches; its entry is removed afterwards, so the
+  // test never touches other entries in llm-cache/
+  let prompt: string;
+  let provider: ReturnType<typeof countingProvider>;
+  beforeEach(function () {
+    prompt = `Test prompt ${crypto.randomUUID()}`;
+    provider = countingProvider();
+  });
+  afterEach(function () {
+    evictCachedResponse(provider, prompt, CONFIG);
+  });
+
+  it("replays a response for the same prompt and config without tokens", async function () {
+    const session = createCacheSession({ enabled: true });
+    const cached: LLMProvider = session.wrap(provider);
+    const first = await cached.generateJson(prompt, CONFIG);
+    const again = await cached.generateJson(prompt, CONFIG);
+    expect(provider.calls).to.equal(1);
+    expect(again).to.deep.equal({ json: first.json, text: first.text, cached: true });
+    expect(session.report()).to.include({ hits: 1, misses: 1 });
+  });
+
+  it("keys on the generation config, seed included", async function () {
+    const cached = createCacheSession({ enabled: true }).wrap(provider);
+    await cached.generateJson(prompt, CONFIG);
+    await cached.generateJson(prompt, { ...CONFIG, seed: 2 });
+    evictCachedResponse(provider, prompt, { ...CONFIG, seed: 2 });
+    expect(provider.calls).to.equal(2);
+    expect(responseCacheKey(provider, prompt, CONFIG)).to.equal(
+      responseCacheKey(provider, prompt, { seed: 1, temperature: 0.7, max_output_tokens: 256 })
+    );
+  });
+
+  it("misses on entries older than the session's ttl", async function () {
+    const cached = createCacheSession({ enabled: true, ttl_seconds: 60 }).wrap(provider);
+    await cached.generateJson(prompt, CONFIG);
+    const file = path.join(CACHE_DIR, `${responseCacheKey(provider, prompt, CONFIG)}.json`);
+    const entry = JSON.parse(fs.readFileSync(file, "utf-8"));
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ ...entry, created_at: new Date(Date.now() - 120 * 1000).toISOString() })
+    );
+    await cached.generateJson(prompt, CONFIG);
+    expect(provider.calls).to.equal(2);
+  });
+
+  it("calls the model again once an entry is evicted", async function () {
+    const cached = createCacheSession({ enabled: true }).wrap(provider);
+    await cached.generateJson(prompt, CONFIG);
+    evictCachedResponse(provider, prompt, CONFIG);
+    await cached.generateJson(prompt, CONFIG);
+    expect(provider.calls).to.equal(2);
+  });
+
+  it("passes calls straight through when disabled", async function () {
+    const session = createCacheSession({ enabled: false });
+    expect(session.wrap(provider)).to.equal(provider);
+  });
+
+  it("reads the request's cache field", function () {
+    expect(parseCacheOptions(false)).to.deep.equal({ enabled: false });
+    expect(parseCacheOptions({ ttl_seconds: 3600 })).to.deep.equal({
+      enabled: true,
+      ttl_seconds: 3600,
+    });
+    expect(() => parseCacheOptions({ ttl_seconds: -1 })).to.throw("positive integer");
+    expect(() => parseCacheOptions("yes")).to.throw("boolean or an object");
+  });
+});
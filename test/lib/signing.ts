@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  canonicalJson,
+  signRow,
+  verifyRowSignature,
+  buildSignedManifest,
+  verifyManifest,
+} from "../../lib/signing";
+
+// Hardhat's first default account; only ever used to sign test rows
+const SIGNING_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const SIGNER = new ethers.Wallet(SIGNING_KEY).address;
+
+describe("signing", function () {
+  before(function () {
+    process.env.SIGNING_PRIVATE_KEY = SIGNING_KEY;
+  });
+
+  describe("canonicalJson", function () {
+    it("sorts keys at every level and keeps array order", function () {
+      expect(canonicalJson({ b: 1, a: { d: [3, 1], c: "x" } })).to.equal(
+        '{"a":{"c":"x","d":[3,1]},"b":1}'
+      );
+    });
+
+    it("drops undefined fields", function () {
+      expect(canonicalJson({ a: 1, b: undefined })).to.equal(canonicalJson({ a: 1 }));
+    });
+
+    it("encodes objects that differ only in key order the same way", function () {
+      expect(canonicalJson({ x: 1, y: [{ q: 1, p: 2 }] })).to.equal(
+        canonicalJson({ y: [{ p: 2, q: 1 }], x: 1 })
+      );
+    });
+  });
+
+  describe("row signatures", function () {
+    const row = {
+      original_text: "Patient reports a mild headache.",
+      synthetic_output: { note: "Mild headache for two days.", specialty: "Neurology" },
+      verification_status: "verified",
+    };
+
+    it("signs a row so its signer can be recovered", function () {
+      const signed: Record<string, any> = signRow(row);
+      expect(signed.signer).to.equal(SIGNER);
+      expect(verifyRowSignature(signed)).to.deep.equal({ valid: true, signer: SIGNER });
+    });
+
+    it("still verifies after the row's keys are reordered", function () {
+      const signed: Record<string, any> = signRow(row);
+      const reordered = JSON.parse(
+        canonicalJson({ signature: signed.signature, signer: signed.signer, ...row })
+      );
+      expect(verifyRowSignature(reordered).valid).to.equal(true);
+    });
+
+    it("rejects a row edited after signing", function () {
+      const signed = signRow(row);
+      const edited = {
+        ...signed,
+        synthetic_output: { ...signed.synthetic_output, specialty: "Cardiology" },
+      };
+      expect(verifyRowSignature(edited).valid).to.equal(false);
+    });
+
+    it("rejects a signature from another signer than expected", function () {
+      const check = verifyRowSignature(signRow(row), ethers.Wallet.createRandom().address);
+      expect(check.valid).to.equal(false);
+      expect(check.signer).to.equal(SIGNER);
+    });
+
+    it("reports a missing signature", function () {
+      expect(verifyRowSignature(row)).to.deep.equal({
+        valid: false,
+        signer: null,
+        error: "Missing signature",
+      });
+    });
+  });
+
+  describe("manifests", function () {
+    it("signs the content hash and row counts", function () {
+      const rows = [{ verification_status: "verified" }, { verification_status: "failed" }];
+      const { manifest, manifest_signature } = buildSignedManifest(Buffer.from("content"), rows);
+      expect(manifest.content_hash).to.equal(
+        "0x" + ethers.sha256(Buffer.from("content")).slice(2)
+      );
+      expect(manifest.row_count).to.equal(2);
+      expect(manifest.verified_rows).to.equal(1);
+      expect(verifyManifest(manifest, manifest_signature).valid).to.equal(true);
+      expect(
+        verifyManifest({ ...manifest, verified_rows: 2 }, manifest_signature).valid
+      ).to.equal(false);
+    });
+
+    it("uses the Merkle root as the content hash of a chunked dataset", function () {
+      const { manifest } = buildSignedManifest({ merkle_root: "0xabc" }, []);
+      expect(manifest.content_hash).to.equal("0xabc");
+      expect(manifest.content_hash_scheme).to.equal("merkle-sha256");
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import {
+  DEFAULT_DEDUP_OPTIONS,
+  createDedupFilter,
+  createLshIndex,
+  estimateSimilarity,
+  minhashSignature,
+  shingles,
+} from "../../lib/similarity";
+
+const signatureOf = (text: string) => minhashSignature(shingles(text, 3));
+
+const SOURCE =
+  "The patient is a 54 year old man with two days of crushing chest pain radiating to the left arm.";
+const PARAPHRASE =
+  "A man in his fifties describes pressure behind the sternum that began two days ago and spreads into his arm.";
+const OTHER =
+  "A young woman reports a week of itchy red rash on both forearms after starting a new detergent.";
+
+describe("similarity", function () {
+  describe("MinHash", function () {
+    it("estimates identical texts as fully similar", function () {
+      expect(estimateSimilarity(signatureOf(SOURCE), signatureOf(SOURCE))).to.equal(1);
+    });
+
+    it("estimates unrelated texts as dissimilar", function () {
+      expect(estimateSimilarity(signatureOf(SOURCE), signatureOf(OTHER))).to.be.below(0.1);
+    });
+
+    it("ignores case and punctuation", function () {
+      expect(
+        estimateSimilarity(signatureOf(SOURCE), signatureOf(SOURCE.toUpperCase().replace(/ /g, ", ")))
+      ).to.equal(1);
+    });
+  });
+
+  describe("createDedupFilter", function () {
+    it("rejects a copy of the source, a duplicate of an accepted row and keeps the rest", function () {
+      const filter = createDedupFilter({ ...DEFAULT_DEDUP_OPTIONS, enabled: true });
+      expect(filter.check(SOURCE, SOURCE + " Vitals stable.")).to.include({
+        accepted: false,
+        reason: "source",
+      });
+      expect(filter.check(SOURCE, PARAPHRASE).accepted).to.equal(true);
+      expect(filter.check(SOURCE, PARAPHRASE + " Vitals stable.")).to.include({
+        accepted: false,
+        reason: "duplicate",
+      });
+      expect(filter.check(SOURCE, OTHER).accepted).to.equal(true);
+      expect(filter.report).to.include({
+        rows_checked: 4,
+        accepted: 2,
+        rejected_source: 1,
+        rejected_duplicate: 1,
+      });
+    });
+
+    it("finds a duplicate of an early row among many kept rows", function () {
+      const filter = createDedupFilter({ ...DEFAULT_DEDUP_OPTIONS, enabled: true });
+      expect(filter.check(SOURCE, PARAPHRASE).accepted).to.equal(true);
+      for (let i = 0; i < 200; i++) {
+        filter.check(SOURCE, `Row ${i} lists finding ${i * 7} and plan ${i * 13} for visit ${i}.`);
+      }
+      const decision = filter.check(SOURCE, PARAPHRASE + " Vitals stable.");
+      expect(decision).to.include({ accepted: false, reason: "duplicate" });
+      expect(decision.score.batch).to.be.at.least(0.7);
+    });
+
+    it("treats two empty rows as duplicates", function () {
+      const filter = createDedupFilter({ ...DEFAULT_DEDUP_OPTIONS, enabled: true });
+      expect(filter.check(SOURCE, "...").accepted).to.equal(true);
+      expect(filter.check(SOURCE, "!").score.batch).to.equal(1);
+    });
+
+    it("scores but keeps every row when disabled", function () {
+      const filter = createDedupFilter({ ...DEFAULT_DEDUP_OPTIONS, enabled: false });
+      const decision = filter.check(SOURCE, SOURCE);
+      expect(decision.accepted).to.equal(true);
+      expect(decision.score.source).to.equal(1);
+    });
+  });
+
+  describe("createLshIndex", function () {
+    it("finds an indexed near duplicate and nothing for unrelated text", function () {
+      const index = createLshIndex();
+      index.add(signatureOf(PARAPHRASE));
+      index.add(signatureOf(OTHER));
+      expect(index.hasNeighbour(signatureOf(PARAPHRASE + " Vitals stable."), 0.7)).to.equal(true);
+      expect(index.hasNeighbour(signatureOf(SOURCE), 0.7)).to.equal(false);
+    });
+
+    it("returns the ids of indexed signatures that share a band", function () {
+      const index = createLshIndex();
+      index.add(signatureOf(OTHER));
+      index.add(signatureOf(PARAPHRASE));
+      expect(index.candidates(signatureOf(PARAPHRASE + " Vitals stable."))).to.deep.equal([1]);
+    });
+  });
+});